@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: ISC
+pragma solidity 0.8.9;
+
+/**
+ * @title BytecodeStorage
+ * Stores data as the code of a contract so it can be read with EXTCODECOPY instead of SLOADs.
+ * Unlike immutables, the data can have any length. The code is prefixed with a STOP opcode so
+ * the data contract can never be called into.
+ */
+library BytecodeStorage {
+    /// @return pointer Address of the contract holding `data`
+    function write(bytes memory data) internal returns (address pointer) {
+        // PUSH4 size, DUP1, PUSH1 14, PUSH1 0, CODECOPY, PUSH1 0, RETURN. The 14 bytes of init
+        // code return everything after them, the STOP prefix and `data`, as the runtime code.
+        bytes memory code = abi.encodePacked(
+            hex"63",
+            uint32(data.length + 1),
+            hex"80600e6000396000f3",
+            hex"00",
+            data
+        );
+        assembly {
+            pointer := create(0, add(code, 32), mload(code))
+        }
+        require(pointer != address(0), "bytecode storage deployment failed");
+    }
+
+    /// Reads past the end of the data are zero-padded
+    /// @return word The 32 bytes of data starting at `start`
+    function readWord(address pointer, uint256 start) internal view returns (bytes32 word) {
+        assembly {
+            // Scratch space is enough for a single word
+            extcodecopy(pointer, 0, add(start, 1), 32)
+            word := mload(0)
+        }
+    }
+}
@@ -14,15 +14,67 @@ interface IWrappedStakedCvx {
     function cvx() external returns (address);
 
     function getReward(address _account) external;
+
+    function addRewards() external;
+
+    function rewardLength() external view returns (uint256);
+
+    function rewards(
+        uint256 index
+    )
+        external
+        view
+        returns (
+            address rewardToken,
+            address rewardPool,
+            uint128 rewardIntegral,
+            uint128 rewardRemaining
+        );
+
+    function convexBooster() external view returns (address);
+
+    function convexPoolId() external view returns (uint256);
+
+    // Set by the wrapper owner through shutdown(), which stops deposits into the wrapper
+    function isShutdown() external view returns (bool);
+}
+
+interface IConvexBooster {
+    function poolInfo(
+        uint256 pid
+    )
+        external
+        view
+        returns (
+            address lptoken,
+            address token,
+            address gauge,
+            address crvRewards,
+            address stash,
+            bool shutdown
+        );
 }
 
 /**
  * @title CvxCurveStableLPCollateral
  */
 contract CvxCurveStableLPCollateral is PoolTokens, ICollateral {
-    using OracleLib for AggregatorV3Interface;
+    using ChainlinkFeedLib for AggregatorV3Interface;
     using FixLib for uint192;
 
+    // How strictPrice() values the LP token
+    enum PricingMode {
+        Balances, // Spot pool balances at their feed prices over the LP token supply
+        VirtualPriceMin, // get_virtual_price() times the lowest token price
+        VirtualPriceMean // get_virtual_price() times the mean token price
+    }
+
+    // How poolRatio() measures the imbalance of the pool
+    enum ImbalanceMode {
+        Spread, // (max - min) / total of the decimal-normalized pool balances
+        ValueWeighted // Largest deviation of a balance's share of the pool value from its weight
+    }
+
     struct Configuration {
         ERC20 lpToken;
         uint8 nTokens;
@@ -35,9 +87,65 @@ contract CvxCurveStableLPCollateral is PoolTokens, ICollateral {
         uint192 fallbackPrice;
         uint192 maxTradeVolume;
         uint192 defaultThreshold;
+        // {s} Half-life of the moving average of each token price checked against the peg. Zero
+        // to check the current prices.
+        uint48 pegHalfLife;
         uint192 poolRatioThreshold;
         uint256 delayUntilDefault;
+        // IFFY or DISABLED, the status while the Convex pool, the wrapper or the Curve pool is
+        // shut down
+        CollateralStatus shutdownStatus;
+        // {1} Share of the virtual price hidden from refPerTok(), which the virtual price can
+        // lose before a hard default. Zero to hard default on any decrease.
+        uint192 revenueHiding;
         CurvePoolType poolType;
+        WrappedRate[] wrappedRates; // Only for Lending pools, empty if all coins convert 1:1
+        PricingMode pricingMode;
+        // Empty to use oracleTimeout for every feed, or the timeout of each feed, same shape as
+        // tokensPriceFeeds
+        uint48[][] feedTimeouts;
+        // Empty to multiply every feed, or how each feed applies to its token's price, same shape
+        // as tokensPriceFeeds
+        FeedOperation[][] feedOperations;
+        // Empty to use defaultThreshold for every token, or the threshold of each token
+        uint192[] defaultThresholds;
+        ImbalanceMode imbalanceMode;
+        // Only for ValueWeighted, the target share of the pool value of each of getBalances().
+        // Empty for equal weights.
+        uint192[] targetWeights;
+        // Selector of a nonreentrant pool function that is a no-op with zero arguments, like
+        // remove_liquidity(uint256,uint256[2]). Zero disables the read-only reentrancy check.
+        bytes4 reentrancyLockPoke;
+        // Chainlink's L2 sequencer uptime feed, zero on L1s. Prices revert while the sequencer is
+        // down and for sequencerGracePeriod {s} after it restarts.
+        address sequencerUptimeFeed;
+        uint48 sequencerGracePeriod;
+    }
+
+    struct TokenHealth {
+        uint192 price; // {UoA/tok} 0 if the feed reverted
+        uint192 smoothedPrice; // {UoA/tok} The price checked against the peg, see pegHalfLife
+        uint192 deviation; // {1} |smoothedPrice - peg| / peg
+        bool feedReverted;
+        bool pegNotMaintained;
+    }
+
+    /// Breakdown of the conditions refresh() collapses into a status
+    struct HealthReport {
+        CollateralStatus status;
+        uint192 peg; // {UoA/ref} 0 if the peg feed reverted
+        bool pegFeedReverted;
+        TokenHealth[] tokens;
+        bool shutDown; // The Convex pool, the wrapper or the Curve pool is shut down
+        bool shutDownReverted;
+        uint192 poolRatio; // {1} Imbalance of the pool by imbalanceMode, 0 if it reverted
+        bool poolRatioReverted;
+        bool unbalanced;
+        uint192 refPerTok; // {ref/tok}
+        uint192 actualRefPerTok; // {ref/tok}
+        uint192 prevReferencePrice; // {ref/tok}
+        uint256 whenDefault;
+        uint256 projectedWhenDefault; // whenDefault after a refresh() at the current block
     }
 
     IERC20Metadata public immutable erc20;
@@ -49,12 +157,33 @@ contract CvxCurveStableLPCollateral is PoolTokens, ICollateral {
     uint192 public immutable fallbackPrice; // {UoA}
     uint192 public immutable defaultThreshold; // {%} e.g. 0.05
     uint192 public immutable poolRatioThreshold;
-    uint192 public prevReferencePrice; // previous rate, {collateral/reference}
+    // {ref/tok} The highest actualRefPerTok() discounted by revenueHiding seen by refresh(), the
+    // floor of actualRefPerTok() and the refPerTok() exposed to the protocol
+    uint192 public prevReferencePrice;
+    uint192 public immutable revenueHiding; // {1} e.g. 1e-6
+    uint192 internal immutable revenueShowing; // {1} 1 - revenueHiding
+    CollateralStatus public immutable shutdownStatus;
+    uint48 public immutable pegHalfLife; // {s}
+    // {UoA/tok} The moving average of each token price as of lastSmoothed, only with pegHalfLife
+    uint192[] public smoothedPrices;
+    uint48 public lastSmoothed; // {s} When refresh() last updated smoothedPrices
     uint256 public immutable delayUntilDefault; // {s} e.g 86400
     uint256 private constant NEVER = type(uint256).max;
     uint256 private _whenDefault = NEVER;
     bytes32 public immutable targetName;
     address public immutable targetPegFeed;
+    bool internal immutable targetPegFeedBounded; // Whether targetPegFeed has answer bounds
+    PricingMode public immutable pricingMode;
+    bytes4 public immutable reentrancyLockPoke;
+    ImbalanceMode public immutable imbalanceMode;
+    // Size in bytes of a target weight in `targetWeightsData`
+    uint256 internal constant WEIGHT_SIZE = 8;
+    // BytecodeStorage pointer to the targetWeights as packed uint64, zero for equal weights
+    address internal immutable targetWeightsData;
+    // Gas given to the reentrancy lock poke, enough for a pool to read and try to set its lock
+    uint256 private constant LOCK_POKE_GAS = 10_000;
+    // Zero arguments for the lock poke, enough words for any pool's remove_liquidity
+    uint256 private constant LOCK_POKE_ARGS_SIZE = 9 * 32;
 
     constructor(Configuration memory config) PoolTokens(ptConfig(config)) {
         require(address(config.lpToken) != address(0), "lp token address is zero");
@@ -65,6 +194,14 @@ contract CvxCurveStableLPCollateral is PoolTokens, ICollateral {
         require(config.targetName != bytes32(0), "targetName missing");
         require(config.delayUntilDefault > 0, "delayUntilDefault zero");
         require(config.poolRatioThreshold > 0, "poolRatioThreshold zero");
+        require(config.revenueHiding < FIX_ONE, "revenueHiding out of range");
+        require(config.shutdownStatus != CollateralStatus.SOUND, "shutdownStatus SOUND");
+        require(
+            config.targetWeights.length == 0 ||
+                (config.imbalanceMode == ImbalanceMode.ValueWeighted &&
+                    validWeights(config.targetWeights, balancesLength(config))),
+            "targetWeights need ValueWeighted and 1 weight for each balance, summing to 1"
+        );
 
         erc20 = ERC20(config.wrappedStakeToken);
         wrappedStakeToken = IWrappedStakedCvx(config.wrappedStakeToken);
@@ -76,30 +213,63 @@ contract CvxCurveStableLPCollateral is PoolTokens, ICollateral {
         defaultThreshold = config.defaultThreshold;
         poolRatioThreshold = config.poolRatioThreshold;
         targetPegFeed = config.targetPegFeed;
+        targetPegFeedBounded =
+            targetPegFeed != address(0) &&
+            AggregatorV3Interface(targetPegFeed).hasAnswerBounds();
         lpToken = config.lpToken;
         lpTokenDecimals = lpToken.decimals();
+        pricingMode = config.pricingMode;
+        reentrancyLockPoke = config.reentrancyLockPoke;
+        // The pool is not locked outside of its own calls
+        require(
+            config.reentrancyLockPoke == bytes4(0) || pokeSetsLock(config.reentrancyLockPoke),
+            "reentrancyLockPoke does not set the lock"
+        );
+        revenueHiding = config.revenueHiding;
+        revenueShowing = FIX_ONE - config.revenueHiding;
+        shutdownStatus = config.shutdownStatus;
+        pegHalfLife = config.pegHalfLife;
+        if (config.pegHalfLife > 0) {
+            for (uint8 i = 0; i < config.nTokens; i++) {
+                smoothedPrices.push(tokenPrice(i));
+            }
+            lastSmoothed = uint48(block.timestamp);
+        }
+        imbalanceMode = config.imbalanceMode;
+        targetWeightsData = config.targetWeights.length > 0
+            ? BytecodeStorage.write(encodeWeights(config.targetWeights))
+            : address(0);
 
-        prevReferencePrice = refPerTok();
+        prevReferencePrice = actualRefPerTok().mul(FIX_ONE - config.revenueHiding);
     }
 
     /// Refresh exchange rates and update default status.
     /// @custom:interaction RCEI
-    function refresh() external {
+    function refresh() public virtual {
         // == Refresh ==
         if (alreadyDefaulted()) return;
         CollateralStatus oldStatus = status();
         // Check for hard default
-        uint192 referencePrice = refPerTok();
+        uint192 referencePrice = actualRefPerTok();
         if (referencePrice < prevReferencePrice) {
+            prevReferencePrice = referencePrice;
             markStatus(CollateralStatus.DISABLED);
         } else {
-            if (pegNotMaintained() || unbalancedBeyondTreshold()) {
+            // Only raised by the hidden price, so the hidden revenue absorbs later decreases
+            uint192 hiddenReferencePrice = referencePrice.mul(revenueShowing);
+            if (hiddenReferencePrice > prevReferencePrice)
+                prevReferencePrice = hiddenReferencePrice;
+
+            if (pegHalfLife > 0) updateSmoothedPrices();
+
+            if (poolShutDown()) {
+                markStatus(shutdownStatus);
+            } else if (pegNotMaintained() || unbalancedBeyondTreshold()) {
                 markStatus(CollateralStatus.IFFY);
             } else {
                 markStatus(CollateralStatus.SOUND);
             }
         }
-        prevReferencePrice = referencePrice;
         CollateralStatus newStatus = status();
         if (oldStatus != newStatus) {
             emit CollateralStatusChanged(oldStatus, newStatus);
@@ -108,6 +278,34 @@ contract CvxCurveStableLPCollateral is PoolTokens, ICollateral {
     }
 
     function ptConfig(Configuration memory config) internal pure returns (PTConfiguration memory) {
+        uint48[][] memory feedTimeouts = config.feedTimeouts;
+        if (feedTimeouts.length == 0) {
+            feedTimeouts = new uint48[][](config.tokensPriceFeeds.length);
+            for (uint256 i = 0; i < feedTimeouts.length; i++) {
+                feedTimeouts[i] = new uint48[](config.tokensPriceFeeds[i].length);
+                for (uint256 j = 0; j < feedTimeouts[i].length; j++) {
+                    feedTimeouts[i][j] = config.oracleTimeout;
+                }
+            }
+        }
+
+        // Multiply is the zero value
+        FeedOperation[][] memory feedOperations = config.feedOperations;
+        if (feedOperations.length == 0) {
+            feedOperations = new FeedOperation[][](config.tokensPriceFeeds.length);
+            for (uint256 i = 0; i < feedOperations.length; i++) {
+                feedOperations[i] = new FeedOperation[](config.tokensPriceFeeds[i].length);
+            }
+        }
+
+        uint192[] memory defaultThresholds = config.defaultThresholds;
+        if (defaultThresholds.length == 0) {
+            defaultThresholds = new uint192[](config.nTokens);
+            for (uint256 i = 0; i < defaultThresholds.length; i++) {
+                defaultThresholds[i] = config.defaultThreshold;
+            }
+        }
+
         return
             PTConfiguration({
                 lpToken: config.lpToken,
@@ -115,12 +313,44 @@ contract CvxCurveStableLPCollateral is PoolTokens, ICollateral {
                 tokenFeeds: config.tokensPriceFeeds,
                 curvePool: config.curvePool,
                 poolType: config.poolType,
-                oracleTimeout: config.oracleTimeout
+                oracleTimeout: config.oracleTimeout,
+                wrappedRates: config.wrappedRates,
+                feedTimeouts: feedTimeouts,
+                feedOperations: feedOperations,
+                defaultThresholds: defaultThresholds,
+                sequencerUptimeFeed: AggregatorV3Interface(config.sequencerUptimeFeed),
+                sequencerGracePeriod: config.sequencerGracePeriod
             });
     }
 
-    function unbalancedBeyondTreshold() internal view returns (bool) {
+    /// @return The number of balances of getBalances(), 2 for Metapools
+    function balancesLength(Configuration memory config) internal pure returns (uint256) {
+        return config.poolType == CurvePoolType.Metapool ? 2 : config.nTokens;
+    }
+
+    /// @return If there is a positive weight for each of `length` balances and they sum to 1
+    function validWeights(uint192[] memory weights, uint256 length) internal pure returns (bool) {
+        if (weights.length != length) return false;
+        uint256 total;
+        for (uint256 i = 0; i < weights.length; i++) {
+            if (weights[i] == 0) return false;
+            total += weights[i];
+        }
+        return total == FIX_ONE;
+    }
+
+    function encodeWeights(uint192[] memory weights) internal pure returns (bytes memory data) {
+        for (uint256 i = 0; i < weights.length; i++) {
+            data = abi.encodePacked(data, uint64(weights[i]));
+        }
+    }
+
+    /// @return {1} The imbalance of the pool, measured by imbalanceMode
+    function poolRatio() public view returns (uint192) {
         uint192[] memory balances = getBalances();
+        if (imbalanceMode == ImbalanceMode.ValueWeighted) return weightedPoolRatio(balances);
+
+        // The spread between the largest and smallest pool balance over the total
         uint192 totalBalances;
         uint192 min = FIX_MAX;
         uint192 max;
@@ -131,19 +361,80 @@ contract CvxCurveStableLPCollateral is PoolTokens, ICollateral {
             totalBalances += balances[i];
         }
 
-        return (max - min).div(totalBalances) > poolRatioThreshold;
+        return (max - min).div(totalBalances);
+    }
+
+    /// @param balances {tok} getBalances()
+    /// @return {1} The largest deviation of a balance's share of the pool value from its target
+    /// weight, relative to that weight
+    function weightedPoolRatio(uint192[] memory balances) internal view returns (uint192) {
+        uint192[] memory values = new uint192[](balances.length); // {UoA}
+        uint192 totalValue; // {UoA}
+        for (uint8 i = 0; i < balances.length; i++) {
+            // A Metapool's base pool LP balance is in {ref} of the base pool, valued at the price
+            // of its cheapest coin like in totalBalancesValue()
+            uint192 p = isMetapool && i == 1 ? minTokenPrice(1) : tokenPrice(i);
+            values[i] = balances[i].mul(p);
+            totalValue += values[i];
+        }
+
+        uint192 maxDeviation;
+        for (uint8 i = 0; i < values.length; i++) {
+            uint192 weight = targetWeight(i, values.length);
+            uint192 share = values[i].div(totalValue);
+            uint192 delta = share > weight ? share - weight : weight - share;
+            maxDeviation = _safeWrap(Math.max(maxDeviation, delta.div(weight)));
+        }
+        return maxDeviation;
+    }
+
+    /// @return {1} The target share of the pool value of the balance at `index` of `length`
+    function targetWeight(uint8 index, uint256 length) public view returns (uint192) {
+        if (targetWeightsData == address(0)) return uint192(FIX_ONE / length);
+        bytes32 weight = BytecodeStorage.readWord(targetWeightsData, index * WEIGHT_SIZE);
+        return uint64(bytes8(weight));
+    }
+
+    /// @return If the Convex pool behind the wrapper, the wrapper or the Curve pool is shut down
+    function poolShutDown() public view returns (bool) {
+        if (wrappedStakeToken.isShutdown()) return true;
+
+        (, , , , , bool shutdown) = IConvexBooster(wrappedStakeToken.convexBooster()).poolInfo(
+            wrappedStakeToken.convexPoolId()
+        );
+        if (shutdown) return true;
+
+        // Some older pools have no kill switch
+        try curvePool.is_killed() returns (bool killed) {
+            return killed;
+        } catch {
+            return false;
+        }
+    }
+
+    function unbalancedBeyondTreshold() internal view returns (bool) {
+        return poolRatio() > poolRatioThreshold;
+    }
+
+    /// @param p {UoA/tok} Price of a pool token
+    /// @param peg {UoA/ref}
+    /// @param threshold {1} The default threshold of the pool token
+    /// @return If the price deviates from the peg by more than `threshold`
+    function outOfPeg(uint192 p, uint192 peg, uint192 threshold) internal pure returns (bool) {
+        // D18{UoA/ref}= D18{UoA/ref} * D18{1} / D18
+        uint192 delta = (peg * threshold) / FIX_ONE; // D18{UoA/ref}
+        // uint192(+/-) is the same as Fix.plus/minus
+        return p < peg - delta || p > peg + delta;
     }
 
     function pegNotMaintained() internal view returns (bool) {
         for (uint8 i = 0; i < nTokens; i++) {
             try this.tokenPrice(i) returns (uint192 p) {
                 // Check for soft default of underlying reference token
-                uint192 peg = getPeg();
-                // D18{UoA/ref}= D18{UoA/ref} * D18{1} / D18
-                uint192 delta = (peg * defaultThreshold) / FIX_ONE; // D18{UoA/ref}
-                // If the price is below the default-threshold price, default eventually
-                // uint192(+/-) is the same as Fix.plus/minus
-                if (p < peg - delta || p > peg + delta) return true;
+                // If the price is beyond the default-threshold price, default eventually
+                if (outOfPeg(pegCheckPrice(i, p), getPeg(), getTokenDefaultThreshold(i))) {
+                    return true;
+                }
             } catch (bytes memory errData) {
                 // see: docs/solidity-style.md#Catching-Empty-Data
                 if (errData.length == 0) revert(); // solhint-disable-line reason-string
@@ -153,12 +444,60 @@ contract CvxCurveStableLPCollateral is PoolTokens, ICollateral {
         return false;
     }
 
+    /// Moves the smoothed price of each token towards its current price. A failing feed keeps
+    /// its token's last smoothed price, pegNotMaintained() reports the failure.
+    function updateSmoothedPrices() internal {
+        for (uint8 i = 0; i < nTokens; i++) {
+            try this.tokenPrice(i) returns (uint192 p) {
+                smoothedPrices[i] = pegCheckPrice(i, p);
+            } catch (bytes memory errData) {
+                // see: docs/solidity-style.md#Catching-Empty-Data
+                if (errData.length == 0) revert(); // solhint-disable-line reason-string
+            }
+        }
+        lastSmoothed = uint48(block.timestamp);
+    }
+
+    /// @param p {UoA/tok} The current price of the token at `index`
+    /// @return {UoA/tok} The price checked against the peg: `p` without pegHalfLife, else the
+    /// smoothed price moved towards `p` for the time since lastSmoothed
+    function pegCheckPrice(uint8 index, uint192 p) internal view returns (uint192) {
+        if (pegHalfLife == 0) return p;
+        uint256 kept = decay(block.timestamp - lastSmoothed); // D18{1}
+        return uint192((smoothedPrices[index] * kept + p * (FIX_ONE - kept)) / FIX_ONE);
+    }
+
+    /// @return D18{1} The weight left to a smoothed price after `elapsed` seconds. It halves every
+    /// pegHalfLife and is interpolated linearly in between.
+    function decay(uint256 elapsed) internal view returns (uint256) {
+        uint256 halvings = elapsed / pegHalfLife;
+        if (halvings >= 60) return 0; // Below 1e-18
+        uint256 weight = FIX_ONE >> halvings;
+        return weight - (weight * (elapsed % pegHalfLife)) / (2 * pegHalfLife);
+    }
+
+    /// @return {UoA/ref} The price the pool tokens are pegged to: targetPerRef() priced by
+    /// targetPegFeed, or as is without targetPegFeed for targets that are the unit of account
     function getPeg() public view returns (uint192) {
         if (targetPegFeed == address(0)) return targetPerRef();
-        return AggregatorV3Interface(targetPegFeed).price(oracleTimeout).mul(targetPerRef());
+        checkSequencer();
+        return
+            AggregatorV3Interface(targetPegFeed)
+                .checkedPrice(oracleTimeout, targetPegFeedBounded)
+                .mul(targetPerRef());
     }
 
+    /// The Balances mode moves with the pool's spot balances, which a large swap can skew within a
+    /// transaction. The virtual price modes only move with the pool's invariant and the feeds.
+    /// @return {UoA/tok}
     function strictPrice() public view returns (uint192) {
+        checkNotReentered();
+        if (pricingMode == PricingMode.VirtualPriceMin) {
+            return virtualPrice().mul(minTokenPrice(0));
+        } else if (pricingMode == PricingMode.VirtualPriceMean) {
+            return virtualPrice().mul(meanTokenPrice());
+        }
+
         uint192 _totalSupply = shiftl_toFix(lpToken.totalSupply(), -int8(lpTokenDecimals));
         return totalBalancesValue().div(_totalSupply);
     }
@@ -177,11 +516,21 @@ contract CvxCurveStableLPCollateral is PoolTokens, ICollateral {
         }
     }
 
-    /// @return {ref/tok} Quantity of whole reference units per whole collateral tokens
+    /// @return {ref/tok} Quantity of whole reference units per whole collateral tokens, which is
+    /// prevReferencePrice: the highest virtual price discounted by revenueHiding seen by
+    /// refresh(), so it only decreases on hard default
     function refPerTok() public view returns (uint192) {
-        return _safeWrap(curvePool.get_virtual_price());
+        return prevReferencePrice;
+    }
+
+    /// @return {ref/tok} The virtual price of the pool, without the revenueHiding discount
+    function actualRefPerTok() public view returns (uint192) {
+        checkNotReentered();
+        return virtualPrice();
     }
 
+    /// The reference unit is what one unit of virtual price is worth, which is one of the target
+    /// units the pool tokens are pegged to: 1 USD for USD pools, 1 ETH for ETH pools and so on
     /// @return {target/ref} Quantity of whole target units per whole reference unit in the peg
     function targetPerRef() public pure returns (uint192) {
         return FIX_ONE;
@@ -202,14 +551,27 @@ contract CvxCurveStableLPCollateral is PoolTokens, ICollateral {
         return shiftl_toFix(erc20.balanceOf(account), -int8(erc20Decimals));
     }
 
+    /// Claims CRV, CVX and every extra reward the wrapper tracks, emitting RewardsClaimed for each
     function claimRewards() external {
-        IERC20 cvx = IERC20(wrappedStakeToken.cvx());
-        IERC20 crv = IERC20(wrappedStakeToken.crv());
-        uint256 cvxOldBal = cvx.balanceOf(address(this));
-        uint256 crvOldBal = crv.balanceOf(address(this));
+        // The wrapper only pays out rewards it has registered, including extra rewards added to
+        // the Convex pool after it was deployed
+        wrappedStakeToken.addRewards();
+        uint256 rewardLength = wrappedStakeToken.rewardLength();
+        IERC20[] memory rewardTokens = new IERC20[](rewardLength);
+        uint256[] memory oldBalances = new uint256[](rewardLength);
+
+        for (uint256 i = 0; i < rewardLength; i++) {
+            (address rewardToken, , , ) = wrappedStakeToken.rewards(i);
+            rewardTokens[i] = IERC20(rewardToken);
+            oldBalances[i] = rewardTokens[i].balanceOf(address(this));
+        }
+
         wrappedStakeToken.getReward(address(this));
-        emit RewardsClaimed(cvx, cvx.balanceOf(address(this)) - cvxOldBal);
-        emit RewardsClaimed(crv, crv.balanceOf(address(this)) - crvOldBal);
+
+        for (uint256 i = 0; i < rewardLength; i++) {
+            uint256 claimed = rewardTokens[i].balanceOf(address(this)) - oldBalances[i];
+            emit RewardsClaimed(rewardTokens[i], claimed);
+        }
     }
 
     /// @return If the asset is an instance of ICollateral or not
@@ -219,15 +581,41 @@ contract CvxCurveStableLPCollateral is PoolTokens, ICollateral {
 
     // === Helpers ===
 
+    /// @return {ref/tok} The pool's virtual price, without the reentrancy check
+    function virtualPrice() internal view returns (uint192) {
+        return _safeWrap(curvePool.get_virtual_price());
+    }
+
+    /// Reverts while the pool is in the middle of a call, like the ETH transfer of
+    /// remove_liquidity, when its balances and virtual price are out of sync with its LP supply.
+    function checkNotReentered() internal view {
+        if (reentrancyLockPoke == bytes4(0)) return;
+        require(pokeSetsLock(reentrancyLockPoke), "curvePool reentrancy");
+    }
+
+    /// A static call to a nonreentrant function always fails: at the lock check if the pool is
+    /// locked, or when setting the lock otherwise, which consumes all the gas it was given.
+    /// @return If the static call to `poke` got to set the lock, so the pool was not locked
+    function pokeSetsLock(bytes4 poke) internal view returns (bool) {
+        bytes memory data = abi.encodePacked(poke, new bytes(LOCK_POKE_ARGS_SIZE));
+        uint256 gasBefore = gasleft();
+        (bool success, ) = address(curvePool).staticcall{ gas: LOCK_POKE_GAS }(data);
+        return !success && gasBefore - gasleft() >= LOCK_POKE_GAS;
+    }
+
     function markStatus(CollateralStatus status_) internal {
         if (_whenDefault <= block.timestamp) return; // prevent DISABLED -> SOUND/IFFY
-        if (status_ == CollateralStatus.SOUND) {
-            _whenDefault = NEVER;
-        } else if (status_ == CollateralStatus.IFFY) {
-            _whenDefault = Math.min(block.timestamp + delayUntilDefault, _whenDefault);
-        } else if (status_ == CollateralStatus.DISABLED) {
-            _whenDefault = block.timestamp;
+        _whenDefault = projectWhenDefault(status_);
+    }
+
+    /// @return The whenDefault markStatus(status_) sets before default
+    function projectWhenDefault(CollateralStatus status_) internal view returns (uint256) {
+        if (status_ == CollateralStatus.SOUND) return NEVER;
+        if (status_ == CollateralStatus.IFFY) {
+            return Math.min(block.timestamp + delayUntilDefault, _whenDefault);
         }
+        if (status_ == CollateralStatus.DISABLED) return block.timestamp;
+        return _whenDefault;
     }
 
     function alreadyDefaulted() internal view returns (bool) {
@@ -237,4 +625,81 @@ contract CvxCurveStableLPCollateral is PoolTokens, ICollateral {
     function whenDefault() public view returns (uint256) {
         return _whenDefault;
     }
+
+    /// Explains the status refresh() would set at the current block
+    /// @return report The per-token, pool and reference price conditions behind the status
+    function healthReport() external view returns (HealthReport memory report) {
+        report.status = status();
+        report.actualRefPerTok = actualRefPerTok();
+        report.refPerTok = refPerTok();
+        report.prevReferencePrice = prevReferencePrice;
+        report.whenDefault = _whenDefault;
+        // The ValueWeighted ratio needs every token price
+        try this.poolRatio() returns (uint192 ratio) {
+            report.poolRatio = ratio;
+            report.unbalanced = ratio > poolRatioThreshold;
+        } catch {
+            report.poolRatioReverted = true;
+        }
+
+        try this.getPeg() returns (uint192 peg) {
+            report.peg = peg;
+        } catch {
+            report.pegFeedReverted = true;
+        }
+
+        try this.poolShutDown() returns (bool isShutDown) {
+            report.shutDown = isShutDown;
+        } catch {
+            report.shutDownReverted = true;
+        }
+
+        bool depegged = false;
+        report.tokens = new TokenHealth[](nTokens);
+        for (uint8 i = 0; i < nTokens; i++) {
+            try this.tokenPrice(i) returns (uint192 p) {
+                report.tokens[i].price = p;
+                uint192 smoothed = pegCheckPrice(i, p);
+                report.tokens[i].smoothedPrice = smoothed;
+                if (!report.pegFeedReverted) {
+                    uint192 delta = smoothed > report.peg
+                        ? smoothed - report.peg
+                        : report.peg - smoothed;
+                    report.tokens[i].deviation = delta.div(report.peg);
+                    report.tokens[i].pegNotMaintained = outOfPeg(
+                        smoothed,
+                        report.peg,
+                        getTokenDefaultThreshold(i)
+                    );
+                }
+            } catch {
+                report.tokens[i].feedReverted = true;
+            }
+            depegged =
+                depegged ||
+                report.tokens[i].feedReverted ||
+                report.tokens[i].pegNotMaintained;
+        }
+
+        // Follows the branches of refresh(), which is a no-op after default and reverts, keeping
+        // _whenDefault, on the first read that does. pegNotMaintained() reads the peg once the
+        // first token price succeeds, and unbalancedBeyondTreshold() only runs without a depeg.
+        if (alreadyDefaulted()) {
+            report.projectedWhenDefault = _whenDefault;
+        } else if (report.actualRefPerTok < prevReferencePrice) {
+            report.projectedWhenDefault = projectWhenDefault(CollateralStatus.DISABLED);
+        } else if (report.shutDownReverted) {
+            report.projectedWhenDefault = _whenDefault;
+        } else if (report.shutDown) {
+            report.projectedWhenDefault = projectWhenDefault(shutdownStatus);
+        } else if (report.pegFeedReverted && !report.tokens[0].feedReverted) {
+            report.projectedWhenDefault = _whenDefault;
+        } else if (depegged || report.unbalanced) {
+            report.projectedWhenDefault = projectWhenDefault(CollateralStatus.IFFY);
+        } else if (report.poolRatioReverted) {
+            report.projectedWhenDefault = _whenDefault;
+        } else {
+            report.projectedWhenDefault = projectWhenDefault(CollateralStatus.SOUND);
+        }
+    }
 }
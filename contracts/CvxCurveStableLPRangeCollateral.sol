@@ -0,0 +1,242 @@
+// SPDX-License-Identifier: ISC
+pragma solidity 0.8.9;
+
+import "./CvxCurveStableLPCollateral.sol";
+
+/// The price functions of the asset interface of newer Reserve Protocol releases. The rest of
+/// that interface matches ICollateral.
+interface IPriceRangeAsset {
+    /// Should not revert
+    /// @return low {UoA/tok} The lower end of the price estimate
+    /// @return high {UoA/tok} The upper end of the price estimate
+    function price() external view returns (uint192 low, uint192 high);
+
+    /// Should not revert
+    /// lotLow should be nonzero when the asset might be worth selling
+    /// @return lotLow {UoA/tok} The lower end of the lot price estimate
+    /// @return lotHigh {UoA/tok} The upper end of the lot price estimate
+    function lotPrice() external view returns (uint192 lotLow, uint192 lotHigh);
+}
+
+/**
+ * @title CvxCurveStableLPRangeCollateral
+ * CvxCurveStableLPCollateral for newer Reserve Protocol releases, which price assets as a range.
+ * Each price feed has an oracleError, the deviation its answer can have from the market price,
+ * and the range spans the lowest and highest prices the feeds allow. When the feeds fail,
+ * lotPrice() decays the last saved range to zero over priceTimeout.
+ */
+contract CvxCurveStableLPRangeCollateral is CvxCurveStableLPCollateral, IPriceRangeAsset {
+    using ChainlinkFeedLib for AggregatorV3Interface;
+    using FixLib for uint192;
+
+    struct PriceRangeConfiguration {
+        uint48 priceTimeout;
+        uint192[][] oracleErrors; // {1} Same shape as tokensPriceFeeds
+    }
+
+    // Size in bytes of an oracleError in `feedErrorsData`
+    uint256 internal constant ORACLE_ERROR_SIZE = 8;
+    // Size in bytes of the offset of a token's first oracleError in `feedErrorsData`
+    uint256 internal constant ERRORS_OFFSET_SIZE = 2;
+
+    uint48 public immutable priceTimeout; // {s} Seconds over which savedPrice decays to 0
+
+    // BytecodeStorage pointer to the oracleErrors. Layout: nTokens packed uint16 offsets of each
+    // token's first oracleError, followed by every token's oracleErrors as packed uint64.
+    address internal immutable feedErrorsData;
+
+    uint192 public savedLowPrice; // {UoA/tok} The low price at the last successful refresh
+    uint192 public savedHighPrice; // {UoA/tok} The high price at the last successful refresh
+    uint48 public lastSave; // {s} When the prices were last saved
+
+    constructor(
+        Configuration memory config,
+        PriceRangeConfiguration memory rangeConfig
+    ) CvxCurveStableLPCollateral(config) {
+        require(rangeConfig.priceTimeout > 0, "priceTimeout zero");
+        priceTimeout = rangeConfig.priceTimeout;
+        feedErrorsData = BytecodeStorage.write(
+            encodeFeedErrors(config.tokensPriceFeeds, rangeConfig.oracleErrors)
+        );
+    }
+
+    function encodeFeedErrors(
+        address[][] memory tokenFeeds,
+        uint192[][] memory oracleErrors
+    ) internal pure returns (bytes memory offsets) {
+        require(oracleErrors.length == tokenFeeds.length, "each price feed needs an oracleError");
+        bytes memory errors;
+        uint256 offsetsSize = tokenFeeds.length * ERRORS_OFFSET_SIZE;
+
+        for (uint8 i = 0; i < tokenFeeds.length; i++) {
+            require(
+                oracleErrors[i].length == tokenFeeds[i].length,
+                "each price feed needs an oracleError"
+            );
+            offsets = abi.encodePacked(offsets, uint16(offsetsSize + errors.length));
+            for (uint8 j = 0; j < oracleErrors[i].length; j++) {
+                require(oracleErrors[i][j] < FIX_ONE, "invalid oracleError");
+                errors = abi.encodePacked(errors, uint64(oracleErrors[i][j]));
+            }
+        }
+
+        return abi.encodePacked(offsets, errors);
+    }
+
+    /// Refresh saved prices, exchange rates and update default status.
+    /// @custom:interaction RCEI
+    function refresh() public override {
+        try this.tryPrice() returns (uint192 low, uint192 high) {
+            savedLowPrice = low;
+            savedHighPrice = high;
+            lastSave = uint48(block.timestamp);
+        } catch (bytes memory errData) {
+            // see: docs/solidity-style.md#Catching-Empty-Data
+            if (errData.length == 0) revert(); // solhint-disable-line reason-string
+            // The failing feeds make the collateral IFFY below
+        }
+        super.refresh();
+    }
+
+    /// Can revert, used by the other price functions
+    /// @return low {UoA/tok} The lower end of the price estimate
+    /// @return high {UoA/tok} The upper end of the price estimate
+    function tryPrice() external view returns (uint192 low, uint192 high) {
+        checkNotReentered();
+        uint192[] memory lows = new uint192[](nTokens);
+        uint192[] memory highs = new uint192[](nTokens);
+        for (uint8 i = 0; i < nTokens; i++) {
+            (lows[i], highs[i]) = tokenPriceRange(i);
+        }
+
+        if (pricingMode == PricingMode.VirtualPriceMin) {
+            return (virtualPrice().mul(minOf(lows, 0)), virtualPrice().mul(minOf(highs, 0)));
+        } else if (pricingMode == PricingMode.VirtualPriceMean) {
+            return (virtualPrice().mul(meanOf(lows)), virtualPrice().mul(meanOf(highs)));
+        }
+
+        uint192[] memory balances = getBalances();
+        if (isMetapool) {
+            // The base pool LP balance is valued at the price of its cheapest coin
+            low = balances[0].mul(lows[0]) + balances[1].mul(minOf(lows, 1));
+            high = balances[0].mul(highs[0]) + balances[1].mul(minOf(highs, 1));
+        } else {
+            for (uint8 i = 0; i < nTokens; i++) {
+                low += balances[i].mul(lows[i]);
+                high += balances[i].mul(highs[i]);
+            }
+        }
+
+        uint192 _totalSupply = shiftl_toFix(lpToken.totalSupply(), -int8(lpTokenDecimals));
+        return (low.div(_totalSupply), high.div(_totalSupply));
+    }
+
+    /// Should not revert
+    /// @return low {UoA/tok} The lower end of the price estimate, 0 if the feeds fail
+    /// @return high {UoA/tok} The upper end of the price estimate, FIX_MAX if the feeds fail
+    function price() external view returns (uint192 low, uint192 high) {
+        try this.tryPrice() returns (uint192 low_, uint192 high_) {
+            return (low_, high_);
+        } catch (bytes memory errData) {
+            // see: docs/solidity-style.md#Catching-Empty-Data
+            if (errData.length == 0) revert(); // solhint-disable-line reason-string
+            return (0, FIX_MAX);
+        }
+    }
+
+    /// Should not revert
+    /// Returns the saved prices while the feeds fail, decaying them to zero over priceTimeout
+    /// once they are older than oracleTimeout
+    /// @return lotLow {UoA/tok} The lower end of the lot price estimate
+    /// @return lotHigh {UoA/tok} The upper end of the lot price estimate
+    function lotPrice() external view returns (uint192 lotLow, uint192 lotHigh) {
+        try this.tryPrice() returns (uint192 low, uint192 high) {
+            return (low, high);
+        } catch (bytes memory errData) {
+            // see: docs/solidity-style.md#Catching-Empty-Data
+            if (errData.length == 0) revert(); // solhint-disable-line reason-string
+        }
+
+        uint48 delta = uint48(block.timestamp) - lastSave; // {s}
+        if (delta <= oracleTimeout) {
+            return (savedLowPrice, savedHighPrice);
+        } else if (delta >= oracleTimeout + priceTimeout) {
+            return (0, 0);
+        }
+
+        // {1} = {s} / {s}
+        uint192 lotMultiplier = _safeWrap(
+            (uint256(oracleTimeout + priceTimeout - delta) * FIX_ONE) / priceTimeout
+        );
+        return (savedLowPrice.mul(lotMultiplier), savedHighPrice.mul(lotMultiplier));
+    }
+
+    /// @return low {UoA/tok} The product of the lowest prices each feed of the token allows
+    /// @return high {UoA/tok} The product of the highest prices each feed of the token allows
+    function tokenPriceRange(uint8 index) public view returns (uint192 low, uint192 high) {
+        if (index >= nTokens) revert WrongIndex(nTokens - 1);
+        (, uint256 feedsOffset, uint8 feedsLength, ) = tokenEntry(index);
+        uint256 errorsOffset = errorsOffsetOf(index);
+        checkSequencer();
+
+        low = FIX_ONE;
+        high = FIX_ONE;
+        for (uint8 i = 0; i < feedsLength; i++) {
+            (
+                AggregatorV3Interface feed,
+                uint48 timeout,
+                FeedOperation operation,
+                bool bounded
+            ) = feedAt(feedsOffset, i);
+            uint192 p = feed.checkedPrice(timeout, bounded);
+            uint192 oracleError = errorAt(errorsOffset, i);
+            if (operation == FeedOperation.Divide) {
+                // The highest answer gives the lowest price
+                low = low.div(p.mul(FIX_ONE + oracleError));
+                high = high.div(p.mul(FIX_ONE - oracleError));
+            } else {
+                low = low.mul(p.mul(FIX_ONE - oracleError));
+                high = high.mul(p.mul(FIX_ONE + oracleError));
+            }
+        }
+    }
+
+    /// @return {1} The oracleError of the feed at `feedIndex` of the token at `index`
+    function getTokenFeedError(uint8 index, uint8 feedIndex) public view returns (uint192) {
+        uint8 feedsLength = getTokenFeedsLength(index);
+        if (feedIndex >= feedsLength) revert WrongIndex(feedsLength - 1);
+        return errorAt(errorsOffsetOf(index), feedIndex);
+    }
+
+    // === Helpers ===
+
+    function errorsOffsetOf(uint8 index) internal view returns (uint256) {
+        bytes32 offset = BytecodeStorage.readWord(feedErrorsData, index * ERRORS_OFFSET_SIZE);
+        return uint16(bytes2(offset));
+    }
+
+    function errorAt(uint256 errorsOffset, uint8 feedIndex) internal view returns (uint192) {
+        bytes32 oracleError = BytecodeStorage.readWord(
+            feedErrorsData,
+            errorsOffset + feedIndex * ORACLE_ERROR_SIZE
+        );
+        return uint64(bytes8(oracleError));
+    }
+
+    /// @return The lowest of `values` from `first` on
+    function minOf(uint192[] memory values, uint8 first) internal pure returns (uint192) {
+        uint192 minValue = FIX_MAX;
+        for (uint256 i = first; i < values.length; i++) {
+            minValue = _safeWrap(Math.min(minValue, values[i]));
+        }
+        return minValue;
+    }
+
+    function meanOf(uint192[] memory values) internal pure returns (uint192) {
+        uint192 sum;
+        for (uint256 i = 0; i < values.length; i++) {
+            sum += values[i];
+        }
+        return sum / uint192(values.length);
+    }
+}
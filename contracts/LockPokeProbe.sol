@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: ISC
+pragma solidity 0.8.9;
+
+/**
+ * @title LockPokeProbe
+ * Pokes the reentrancy lock of a Curve pool like CvxCurveStableLPCollateral does. It is not meant
+ * to be deployed: scripts/validate.ts runs the constructor through eth_call, which returns
+ * abi.encode(bool success, uint256 gasUsed) of the poke.
+ */
+contract LockPokeProbe {
+    // Same as CvxCurveStableLPCollateral
+    uint256 private constant LOCK_POKE_GAS = 10_000;
+    uint256 private constant LOCK_POKE_ARGS_SIZE = 9 * 32;
+
+    constructor(address curvePool, bytes4 lockPoke) {
+        bytes memory data = abi.encodePacked(lockPoke, new bytes(LOCK_POKE_ARGS_SIZE));
+        uint256 gasBefore = gasleft();
+        (bool success, ) = curvePool.staticcall{ gas: LOCK_POKE_GAS }(data);
+        bytes memory result = abi.encode(success, gasBefore - gasleft());
+        assembly {
+            return(add(result, 32), mload(result))
+        }
+    }
+}
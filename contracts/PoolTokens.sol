@@ -6,7 +6,7 @@ import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import "@openzeppelin/contracts/utils/math/Math.sol";
 import "reserve/contracts/plugins/assets/OracleLib.sol";
 import "reserve/contracts/libraries/Fixed.sol";
-import "hardhat/console.sol";
+import "./BytecodeStorage.sol";
 
 interface ICurvePool {
     function coins(uint) external view returns (address);
@@ -17,6 +17,9 @@ interface ICurvePool {
     // Only exists in Curve Metapools
     function base_coins(uint) external view returns (address);
 
+    // Only exists in Curve Metapools
+    function base_pool() external view returns (address);
+
     function balances(uint) external view returns (uint256);
 
     function get_virtual_price() external view returns (uint256);
@@ -24,23 +27,128 @@ interface ICurvePool {
     function token() external view returns (address);
 
     function exchange(int128, int128, uint256, uint256) external;
+
+    // Set by the Curve admin to stop deposits, swaps and imbalanced withdrawals
+    function is_killed() external view returns (bool);
+}
+
+// Wrapped tokens held by Curve Lending pools
+interface ICToken {
+    /// @return Underlying units per cToken unit, scaled by 1e18
+    function exchangeRateStored() external view returns (uint256);
+}
+
+interface IYToken {
+    /// @return Underlying units per yToken unit, scaled by 1e18
+    function getPricePerFullShare() external view returns (uint256);
+}
+
+// Chainlink feeds are proxies to an aggregator that clamps its answers to fixed bounds
+interface IChainlinkFeedProxy {
+    function aggregator() external view returns (address);
+}
+
+interface IBoundedAggregator {
+    function minAnswer() external view returns (int192);
+
+    function maxAnswer() external view returns (int192);
+}
+
+error PriceAtBound(address feed);
+error RoundIncomplete(address feed);
+
+library ChainlinkFeedLib {
+    /// OracleLib.price(), also failing for answers of an earlier round and, for bounded feeds, for
+    /// answers at the bounds of the feed's aggregator. Chainlink keeps reporting the bound while
+    /// the market price is beyond it, as the LUNA feeds did at their minAnswer through the crash.
+    /// @param bounded Whether `feed` has answer bounds, as found by hasAnswerBounds()
+    /// @return {UoA/tok} The answer of `feed`
+    function checkedPrice(
+        AggregatorV3Interface feed,
+        uint48 timeout,
+        bool bounded
+    ) internal view returns (uint192) {
+        (uint80 roundId, int256 answer, , uint256 updateTime, uint80 answeredInRound) = feed
+            .latestRoundData();
+        if (answeredInRound < roundId) revert RoundIncomplete(address(feed));
+        if (updateTime == 0 || block.timestamp - updateTime > timeout) revert StalePrice();
+        if (bounded) {
+            (int256 minAnswer, int256 maxAnswer) = answerBounds(feed);
+            if (answer <= minAnswer || answer >= maxAnswer) revert PriceAtBound(address(feed));
+        }
+        if (answer <= 0) revert PriceOutsideRange();
+        return shiftl_toFix(uint256(answer), -int8(feed.decimals()));
+    }
+
+    /// Whether `feed` is a Chainlink proxy to an aggregator with bounds. Missing functions revert
+    /// without data, like running out of gas does, so this is only safe to call when contracts
+    /// are built and the deployer sets the gas.
+    function hasAnswerBounds(AggregatorV3Interface feed) internal view returns (bool) {
+        // Calls to an address without code revert before they can be caught
+        if (address(feed).code.length == 0) return false;
+        try IChainlinkFeedProxy(address(feed)).aggregator() returns (address aggregator) {
+            if (aggregator.code.length == 0) return false;
+            try IBoundedAggregator(aggregator).minAnswer() returns (int192) {
+                try IBoundedAggregator(aggregator).maxAnswer() returns (int192) {
+                    return true;
+                } catch {}
+            } catch {}
+        } catch {}
+        return false;
+    }
+
+    /// Only for feeds found bounded by hasAnswerBounds(), so any revert is passed on
+    /// @return minAnswer The lowest answer the aggregator behind `feed` can report
+    /// @return maxAnswer The highest answer the aggregator behind `feed` can report
+    function answerBounds(
+        AggregatorV3Interface feed
+    ) internal view returns (int256 minAnswer, int256 maxAnswer) {
+        IBoundedAggregator aggregator = IBoundedAggregator(
+            IChainlinkFeedProxy(address(feed)).aggregator()
+        );
+        return (aggregator.minAnswer(), aggregator.maxAnswer());
+    }
 }
 
 contract PoolTokens {
-    using OracleLib for AggregatorV3Interface;
+    using ChainlinkFeedLib for AggregatorV3Interface;
     using FixLib for uint192;
 
     error WrongIndex(uint8 maxLength);
-    error NoToken(uint8 tokenNumber);
+    error SequencerDown();
+    error GracePeriodNotOver();
 
     uint8 constant MAX_UINT8 = 255;
 
+    // Size in bytes of a token entry in `tokensData`: token address, offset of its first feed,
+    // number of feeds, wrapped rate and default threshold.
+    uint256 internal constant TOKEN_ENTRY_SIZE = 32;
+    // Size in bytes of a feed in `tokensData`: feed address, oracle timeout, operation and
+    // whether the feed has answer bounds
+    uint256 internal constant FEED_SIZE = 28;
+    uint256 internal constant ADDRESS_SIZE = 20;
+    // How Curve pools list native ETH among their coins
+    address internal constant NATIVE_ETH = 0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE;
+
     enum CurvePoolType {
         Plain,
         Lending,
         Metapool
     }
 
+    // How a Lending pool's wrapped coin converts to its underlying coin
+    enum WrappedRate {
+        None, // Held as is, or wrapped 1:1 like Aave's aTokens
+        Compound, // cToken.exchangeRateStored()
+        Yearn // yToken.getPricePerFullShare()
+    }
+
+    // How a feed's answer is applied to the price chained from the token's previous feeds
+    enum FeedOperation {
+        Multiply, // Feeds quoting the token or the previous feed's quote, like XYZ / ETH
+        Divide // Inverse feeds, like USD / XYZ or ETH / USD after XYZ / USD
+    }
+
     struct PTConfiguration {
         ERC20 lpToken;
         uint8 nTokens;
@@ -48,50 +156,85 @@ contract PoolTokens {
         ICurvePool curvePool;
         CurvePoolType poolType;
         uint48 oracleTimeout;
+        WrappedRate[] wrappedRates;
+        uint48[][] feedTimeouts; // {s} Same shape as tokenFeeds
+        FeedOperation[][] feedOperations; // Same shape as tokenFeeds
+        uint192[] defaultThresholds; // {1} One for each token
+        AggregatorV3Interface sequencerUptimeFeed; // Zero on L1s
+        uint48 sequencerGracePeriod; // {s}
     }
 
     uint48 public immutable oracleTimeout; // {s} Seconds that an oracle value is considered valid
+    // Chainlink's L2 sequencer uptime feed, zero on L1s. Its answer is 0 while the sequencer is up
+    // and 1 while it is down, and its startedAt is when the answer last changed.
+    AggregatorV3Interface public immutable sequencerUptimeFeed;
+    // {s} How long prices keep reverting after the sequencer restarts, while the feeds catch up
+    uint48 public immutable sequencerGracePeriod;
     ICurvePool public immutable curvePool;
-
-    ERC20 internal immutable token0;
-    ERC20 internal immutable token1;
-    ERC20 internal immutable token2;
-    ERC20 internal immutable token3;
-    uint8 internal immutable nTokens;
-
-    AggregatorV3Interface internal immutable _t0feed0;
-    AggregatorV3Interface internal immutable _t0feed1;
-    AggregatorV3Interface internal immutable _t0feed2;
-
-    AggregatorV3Interface internal immutable _t1feed0;
-    AggregatorV3Interface internal immutable _t1feed1;
-    AggregatorV3Interface internal immutable _t1feed2;
-
-    AggregatorV3Interface internal immutable _t2feed0;
-    AggregatorV3Interface internal immutable _t2feed1;
-    AggregatorV3Interface internal immutable _t2feed2;
-
-    AggregatorV3Interface internal immutable _t3feed0;
-    AggregatorV3Interface internal immutable _t3feed1;
-    AggregatorV3Interface internal immutable _t3feed2;
-
-    uint8 internal immutable _t0feedsLength;
-    uint8 internal immutable _t1feedsLength;
-    uint8 internal immutable _t2feedsLength;
-    uint8 internal immutable _t3feedsLength;
+    ICurvePool public immutable basePool; // Only set for Metapools
+    uint8 public immutable nTokens;
+    bool internal immutable isMetapool;
+
+    // BytecodeStorage pointer to the pool tokens and their feeds. Solidity does not support
+    // immutable arrays so they are embedded in the bytecode of a separate contract instead. This
+    // is a gas optimization since reading that code is significantly cheaper than reading
+    // storage, and unlike immutables it fits any number of tokens and feeds.
+    //
+    // Layout: nTokens entries of TOKEN_ENTRY_SIZE bytes, each the packed (address token,
+    // uint16 feedsOffset, uint8 feedsLength, WrappedRate wrappedRate, uint64 defaultThreshold),
+    // then for Lending pools with wrapped rates the nTokens wrapped coins, followed by every
+    // token's feeds of FEED_SIZE bytes, each the packed (address feed, uint48 timeout,
+    // FeedOperation operation, bool bounded). feedsOffset is where a token's first feed starts.
+    address internal immutable tokensData;
 
     constructor(PTConfiguration memory config) {
         require(config.oracleTimeout > 0, "oracleTimeout zero");
-        require(maxFeedsLength(config.tokenFeeds) <= 3, "price feeds limited to 3");
+        require(maxFeedsLength(config.tokenFeeds) <= MAX_UINT8, "too many price feeds");
         require(
             config.tokenFeeds.length == config.nTokens && minFeedsLength(config.tokenFeeds) > 0,
             "each token needs at least 1 price feed"
         );
         require(address(config.curvePool) != address(0), "curvePool address is zero");
+        require(
+            config.wrappedRates.length == 0 ||
+                (config.poolType == CurvePoolType.Lending &&
+                    config.wrappedRates.length == config.nTokens),
+            "wrapped rates need a Lending pool and 1 rate for each token"
+        );
+        require(
+            config.poolType != CurvePoolType.Metapool || config.nTokens > 1,
+            "metapools need the paired coin and base coins"
+        );
+        require(
+            config.defaultThresholds.length == config.nTokens,
+            "each token needs a defaultThreshold"
+        );
+        require(config.feedTimeouts.length == config.nTokens, "each price feed needs a timeout");
+        require(
+            config.feedOperations.length == config.nTokens,
+            "each price feed needs an operation"
+        );
+        for (uint8 i = 0; i < config.nTokens; i++) {
+            require(config.defaultThresholds[i] > 0, "defaultThreshold zero");
+            require(config.defaultThresholds[i] < FIX_ONE, "defaultThreshold too high");
+            require(
+                config.feedTimeouts[i].length == config.tokenFeeds[i].length,
+                "each price feed needs a timeout"
+            );
+            for (uint8 j = 0; j < config.feedTimeouts[i].length; j++) {
+                require(config.feedTimeouts[i][j] > 0, "oracleTimeout zero");
+            }
+            require(
+                config.feedOperations[i].length == config.tokenFeeds[i].length,
+                "each price feed needs an operation"
+            );
+        }
 
         curvePool = config.curvePool;
         nTokens = config.nTokens;
         oracleTimeout = config.oracleTimeout;
+        sequencerUptimeFeed = config.sequencerUptimeFeed;
+        sequencerGracePeriod = config.sequencerGracePeriod;
 
         address[] memory poolTokens = new address[](nTokens);
         if (config.poolType == CurvePoolType.Plain) {
@@ -99,53 +242,85 @@ contract PoolTokens {
         } else if (config.poolType == CurvePoolType.Lending) {
             poolTokens = getPoolTokens(nTokens, curvePool.underlying_coins);
         } else {
-            poolTokens = getPoolTokens(nTokens, curvePool.base_coins);
+            // The metapool's own coin followed by the coins of the base pool it is paired with
+            address[] memory baseCoins = getPoolTokens(nTokens - 1, curvePool.base_coins);
+            poolTokens[0] = curvePool.coins(0);
+            for (uint8 i = 1; i < nTokens; i++) {
+                poolTokens[i] = baseCoins[i - 1];
+            }
+        }
+
+        isMetapool = config.poolType == CurvePoolType.Metapool;
+        basePool = ICurvePool(isMetapool ? curvePool.base_pool() : address(0));
+        require(!isMetapool || address(basePool) != address(0), "basePool address is zero");
+
+        address[] memory wrappedCoins = new address[](0);
+        if (config.wrappedRates.length > 0) {
+            wrappedCoins = getPoolTokens(nTokens, curvePool.coins);
+        }
+
+        tokensData = BytecodeStorage.write(encodeTokensData(config, poolTokens, wrappedCoins));
+    }
+
+    function encodeTokensData(
+        PTConfiguration memory config,
+        address[] memory poolTokens,
+        address[] memory wrappedCoins
+    ) internal view returns (bytes memory entries) {
+        address[][] memory tokenFeeds = config.tokenFeeds;
+        WrappedRate[] memory wrappedRates = config.wrappedRates;
+        bytes memory coins;
+        bytes memory feeds;
+        uint256 entriesSize = poolTokens.length * TOKEN_ENTRY_SIZE;
+        uint256 feedsOffset = entriesSize + wrappedCoins.length * ADDRESS_SIZE;
+
+        for (uint8 i = 0; i < poolTokens.length; i++) {
+            entries = abi.encodePacked(
+                entries,
+                poolTokens[i],
+                uint16(feedsOffset + feeds.length),
+                uint8(tokenFeeds[i].length),
+                wrappedRates.length > 0 ? wrappedRates[i] : WrappedRate.None,
+                uint64(config.defaultThresholds[i])
+            );
+            // encodePacked pads array elements, so addresses are appended one at a time
+            if (wrappedCoins.length > 0) coins = abi.encodePacked(coins, wrappedCoins[i]);
+            for (uint8 j = 0; j < tokenFeeds[i].length; j++) {
+                feeds = abi.encodePacked(
+                    feeds,
+                    tokenFeeds[i][j],
+                    config.feedTimeouts[i][j],
+                    config.feedOperations[i][j],
+                    AggregatorV3Interface(tokenFeeds[i][j]).hasAnswerBounds()
+                );
+            }
         }
+        require(feedsOffset + feeds.length <= type(uint16).max, "too many price feeds");
 
-        // Solidity does not support immutable arrays. This is a hack to get the equivalent of
-        // an immutable array so we do not have store the token feeds in the blockchain. This is
-        // a gas optimization since it is significantly more expensive to read and write on the
-        // blockchain than it is to use embedded values in the bytecode.
-        token0 = ERC20(poolTokens[0]);
-        address[] memory token0Feeds = config.tokenFeeds[0];
-        _t0feed0 = AggregatorV3Interface(token0Feeds.length > 0 ? token0Feeds[0] : address(0));
-        _t0feed1 = AggregatorV3Interface(token0Feeds.length > 1 ? token0Feeds[1] : address(0));
-        _t0feed2 = AggregatorV3Interface(token0Feeds.length > 2 ? token0Feeds[2] : address(0));
-        _t0feedsLength = uint8(token0Feeds.length);
-
-        token1 = ERC20(poolTokens[1]);
-        address[] memory token1Feeds = config.tokenFeeds[1];
-        _t1feed0 = AggregatorV3Interface(token1Feeds.length > 0 ? token1Feeds[0] : address(0));
-        _t1feed1 = AggregatorV3Interface(token1Feeds.length > 1 ? token1Feeds[1] : address(0));
-        _t1feed2 = AggregatorV3Interface(token1Feeds.length > 2 ? token1Feeds[2] : address(0));
-        _t1feedsLength = uint8(token1Feeds.length);
-
-        token2 = ERC20(poolTokens.length > 2 ? poolTokens[2] : address(0));
-        address[] memory token2Feeds = address(token2) != address(0)
-            ? config.tokenFeeds[2]
-            : new address[](0);
-        _t2feed0 = AggregatorV3Interface(token2Feeds.length > 0 ? token2Feeds[0] : address(0));
-        _t2feed1 = AggregatorV3Interface(token2Feeds.length > 1 ? token2Feeds[1] : address(0));
-        _t2feed2 = AggregatorV3Interface(token2Feeds.length > 2 ? token2Feeds[2] : address(0));
-        _t2feedsLength = uint8(token2Feeds.length);
-
-        token3 = ERC20(poolTokens.length > 3 ? poolTokens[3] : address(0));
-        address[] memory token3Feeds = address(token3) != address(0)
-            ? config.tokenFeeds[3]
-            : new address[](0);
-        _t3feed0 = AggregatorV3Interface(token3Feeds.length > 0 ? token3Feeds[0] : address(0));
-        _t3feed1 = AggregatorV3Interface(token3Feeds.length > 1 ? token3Feeds[1] : address(0));
-        _t3feed2 = AggregatorV3Interface(token3Feeds.length > 2 ? token3Feeds[2] : address(0));
-        _t3feedsLength = uint8(token3Feeds.length);
+        return abi.encodePacked(entries, coins, feeds);
     }
 
     function totalBalancesValue() public view returns (uint192) {
+        if (isMetapool) {
+            // The base pool LP balance is in the base pool's reference units, valued at the price
+            // of its cheapest coin
+            uint192[] memory metapoolBalances = getBalances();
+            return
+                metapoolBalances[0].mul(tokenPrice(0)) + metapoolBalances[1].mul(minTokenPrice(1));
+        }
+
         uint192 totalBalances = 0;
 
         for (uint8 i = 0; i < nTokens; i++) {
-            ERC20 token = getToken(i);
-            uint192 balance = shiftl_toFix(curvePool.balances(i), -int8(token.decimals()));
-            totalBalances += balance.mul(tokenPrice(i));
+            // Reads the token's entry once for both its balance and its feeds
+            (
+                ERC20 token,
+                uint256 feedsOffset,
+                uint8 feedsLength,
+                WrappedRate wrappedRate
+            ) = tokenEntry(i);
+            uint192 balance = tokenBalance(i, token, wrappedRate);
+            totalBalances += balance.mul(chainedPrice(feedsOffset, feedsLength));
         }
 
         return totalBalances;
@@ -162,13 +337,25 @@ contract PoolTokens {
         return poolTokens;
     }
 
+    /// @return {tok} The balance of each pool token. For Metapools, only the balances of the
+    /// paired coin and of the base pool LP token, the latter in {ref} of the base pool.
     function getBalances() public view returns (uint192[] memory) {
+        if (isMetapool) {
+            uint192[] memory metapoolBalances = new uint192[](2);
+            (ERC20 pairedCoin, , , ) = tokenEntry(0);
+            metapoolBalances[0] = tokenBalance(0, pairedCoin, WrappedRate.None);
+            // {ref} = {baseLP} * {ref/baseLP}, Curve LP tokens have 18 decimals
+            metapoolBalances[1] = _safeWrap(curvePool.balances(1)).mul(
+                _safeWrap(basePool.get_virtual_price())
+            );
+            return metapoolBalances;
+        }
+
         uint192[] memory balances = new uint192[](nTokens);
 
         for (uint8 i = 0; i < nTokens; i++) {
-            ERC20 token = getToken(i);
-            uint192 balance = shiftl_toFix(curvePool.balances(i), -int8(token.decimals()));
-            balances[i] = (balance);
+            (ERC20 token, , , WrappedRate wrappedRate) = tokenEntry(i);
+            balances[i] = tokenBalance(i, token, wrappedRate);
         }
 
         return balances;
@@ -176,80 +363,174 @@ contract PoolTokens {
 
     function getToken(uint8 index) public view returns (ERC20) {
         if (index >= nTokens) revert WrongIndex(nTokens - 1);
-        if (index == 0) return token0;
-        if (index == 1) return token1;
-        if (index == 2) return token2;
-        return token3;
+        (ERC20 token, , , ) = tokenEntry(index);
+        return token;
     }
 
     function tokenPrice(uint8 index) public view returns (uint192) {
         if (index >= nTokens) revert WrongIndex(nTokens - 1);
-        if (index == 0) return token0price();
-        if (index == 1) return token1price();
-        if (index == 2) return token2price();
-        return token3price();
+        (, uint256 feedsOffset, uint8 feedsLength, ) = tokenEntry(index);
+        return chainedPrice(feedsOffset, feedsLength);
     }
 
-    function token0price() public view returns (uint192) {
-        uint192 _price = FIX_ONE;
-        for (uint8 i = 0; i < _t0feedsLength; i++) {
-            _price = getToken0feed(i).price(oracleTimeout).mul(_price);
-        }
-        return _price;
+    /// @return The number of feeds chained to price the token at `index`
+    function getTokenFeedsLength(uint8 index) public view returns (uint8) {
+        if (index >= nTokens) revert WrongIndex(nTokens - 1);
+        (, , uint8 feedsLength, ) = tokenEntry(index);
+        return feedsLength;
     }
 
-    function getToken0feed(uint8 index) public view returns (AggregatorV3Interface) {
-        if (index >= _t0feedsLength) revert WrongIndex(_t0feedsLength);
-        if (index == 0) return _t0feed0;
-        if (index == 1) return _t0feed1;
-        return _t0feed2;
+    function getTokenFeed(
+        uint8 index,
+        uint8 feedIndex
+    ) public view returns (AggregatorV3Interface) {
+        if (index >= nTokens) revert WrongIndex(nTokens - 1);
+        (, uint256 feedsOffset, uint8 feedsLength, ) = tokenEntry(index);
+        if (feedIndex >= feedsLength) revert WrongIndex(feedsLength - 1);
+        (AggregatorV3Interface feed, , , ) = feedAt(feedsOffset, feedIndex);
+        return feed;
     }
 
-    function token1price() public view returns (uint192) {
-        uint192 _price = FIX_ONE;
-        for (uint8 i = 0; i < _t1feedsLength; i++) {
-            _price = getToken1feed(i).price(oracleTimeout).mul(_price);
+    /// @return {s} Seconds that an answer of the feed at `feedIndex` of the token at `index` is
+    /// considered valid
+    function getTokenFeedTimeout(uint8 index, uint8 feedIndex) public view returns (uint48) {
+        if (index >= nTokens) revert WrongIndex(nTokens - 1);
+        (, uint256 feedsOffset, uint8 feedsLength, ) = tokenEntry(index);
+        if (feedIndex >= feedsLength) revert WrongIndex(feedsLength - 1);
+        (, uint48 timeout, , ) = feedAt(feedsOffset, feedIndex);
+        return timeout;
+    }
+
+    /// @return How the feed at `feedIndex` of the token at `index` is applied to its price
+    function getTokenFeedOperation(
+        uint8 index,
+        uint8 feedIndex
+    ) public view returns (FeedOperation) {
+        if (index >= nTokens) revert WrongIndex(nTokens - 1);
+        (, uint256 feedsOffset, uint8 feedsLength, ) = tokenEntry(index);
+        if (feedIndex >= feedsLength) revert WrongIndex(feedsLength - 1);
+        (, , FeedOperation operation, ) = feedAt(feedsOffset, feedIndex);
+        return operation;
+    }
+
+    /// @return {1} How far the price of the token at `index` can deviate from the peg
+    function getTokenDefaultThreshold(uint8 index) public view returns (uint192) {
+        if (index >= nTokens) revert WrongIndex(nTokens - 1);
+        bytes32 entry = BytecodeStorage.readWord(tokensData, index * TOKEN_ENTRY_SIZE);
+        return uint64(bytes8(entry << 192));
+    }
+
+    function tokenEntry(
+        uint8 index
+    )
+        internal
+        view
+        returns (ERC20 token, uint256 feedsOffset, uint8 feedsLength, WrappedRate wrappedRate)
+    {
+        bytes32 entry = BytecodeStorage.readWord(tokensData, index * TOKEN_ENTRY_SIZE);
+        token = ERC20(address(bytes20(entry)));
+        feedsOffset = uint16(bytes2(entry << 160));
+        feedsLength = uint8(bytes1(entry << 176));
+        wrappedRate = WrappedRate(uint8(bytes1(entry << 184)));
+    }
+
+    /// @return {tok} The pool balance of the token at `index`. For Lending pools with wrapped
+    /// rates, the wrapped coin balance converted to the underlying token.
+    function tokenBalance(
+        uint8 index,
+        ERC20 token,
+        WrappedRate wrappedRate
+    ) internal view returns (uint192) {
+        uint256 balance = curvePool.balances(index);
+        if (wrappedRate != WrappedRate.None) {
+            // {qUnderlying} = {qWrapped} * D18{qUnderlying/qWrapped} / D18
+            balance = (balance * wrappedCoinRate(index, wrappedRate)) / 1e18;
         }
-        return _price;
+        return shiftl_toFix(balance, -int8(tokenDecimals(token)));
     }
 
-    function getToken1feed(uint8 index) public view returns (AggregatorV3Interface) {
-        if (index >= _t1feedsLength) revert WrongIndex(_t1feedsLength - 1);
-        if (index == 0) return _t1feed0;
-        if (index == 1) return _t1feed1;
-        return _t1feed2;
+    /// Native ETH has no contract to read its decimals from
+    function tokenDecimals(ERC20 token) internal view returns (uint8) {
+        return address(token) == NATIVE_ETH ? 18 : token.decimals();
     }
 
-    function token2price() public view returns (uint192) {
-        if (address(token2) == address(0)) revert NoToken(2);
-        uint192 _price = FIX_ONE;
-        for (uint8 i = 0; i < _t2feedsLength; i++) {
-            _price = getToken2feed(i).price(oracleTimeout).mul(_price);
+    /// @return D18{qUnderlying/qWrapped} Underlying units per unit of the wrapped coin at `index`
+    function wrappedCoinRate(uint8 index, WrappedRate wrappedRate) internal view returns (uint256) {
+        address wrappedCoin = address(
+            bytes20(
+                BytecodeStorage.readWord(
+                    tokensData,
+                    nTokens * TOKEN_ENTRY_SIZE + index * ADDRESS_SIZE
+                )
+            )
+        );
+        if (wrappedRate == WrappedRate.Compound) return ICToken(wrappedCoin).exchangeRateStored();
+        return IYToken(wrappedCoin).getPricePerFullShare();
+    }
+
+    /// @param first Index of the first token to compare, 1 for the coins of a Metapool's base pool
+    /// @return {UoA/ref} The lowest price among the tokens from `first` on
+    function minTokenPrice(uint8 first) internal view returns (uint192) {
+        uint192 minPrice = FIX_MAX;
+        for (uint8 i = first; i < nTokens; i++) {
+            minPrice = _safeWrap(Math.min(minPrice, tokenPrice(i)));
         }
-        return _price;
+        return minPrice;
     }
 
-    function getToken2feed(uint8 index) public view returns (AggregatorV3Interface) {
-        if (index >= _t2feedsLength) revert WrongIndex(_t2feedsLength - 1);
-        if (index == 0) return _t2feed0;
-        if (index == 1) return _t2feed1;
-        return _t2feed2;
+    /// @return {UoA/ref} The mean price of the tokens
+    function meanTokenPrice() internal view returns (uint192) {
+        uint192 sum;
+        for (uint8 i = 0; i < nTokens; i++) {
+            sum += tokenPrice(i);
+        }
+        return sum / nTokens;
     }
 
-    function token3price() public view returns (uint192) {
-        if (address(token3) == address(0)) revert NoToken(3);
+    /// @return {UoA/tok} The prices of a token's feeds, multiplied or divided in order
+    function chainedPrice(uint256 feedsOffset, uint8 feedsLength) internal view returns (uint192) {
+        checkSequencer();
         uint192 _price = FIX_ONE;
-        for (uint8 i = 0; i < _t3feedsLength; i++) {
-            _price = getToken3feed(i).price(oracleTimeout).mul(_price);
+        for (uint8 i = 0; i < feedsLength; i++) {
+            (
+                AggregatorV3Interface feed,
+                uint48 timeout,
+                FeedOperation operation,
+                bool bounded
+            ) = feedAt(feedsOffset, i);
+            uint192 p = feed.checkedPrice(timeout, bounded);
+            _price = operation == FeedOperation.Divide ? _price.div(p) : p.mul(_price);
         }
         return _price;
     }
 
-    function getToken3feed(uint8 index) public view returns (AggregatorV3Interface) {
-        if (index >= _t3feedsLength) revert WrongIndex(_t3feedsLength - 1);
-        if (index == 0) return _t3feed0;
-        if (index == 1) return _t3feed1;
-        return _t3feed2;
+    /// Reverts while the L2 sequencer is down and for sequencerGracePeriod after it restarts, as
+    /// the feeds cannot be updated in the meantime
+    function checkSequencer() internal view {
+        if (address(sequencerUptimeFeed) == address(0)) return;
+        (, int256 answer, uint256 startedAt, , ) = sequencerUptimeFeed.latestRoundData();
+        // startedAt is 0 until the feed is initialized
+        if (answer != 0 || startedAt == 0) revert SequencerDown();
+        if (block.timestamp - startedAt <= sequencerGracePeriod) revert GracePeriodNotOver();
+    }
+
+    /// @return feed The feed at `feedIndex` of the token whose feeds start at `feedsOffset`
+    /// @return timeout {s} Seconds that an answer of the feed is considered valid
+    /// @return operation How the answer of the feed is applied to the token's price
+    /// @return bounded Whether the feed's aggregator has answer bounds
+    function feedAt(
+        uint256 feedsOffset,
+        uint8 feedIndex
+    )
+        internal
+        view
+        returns (AggregatorV3Interface feed, uint48 timeout, FeedOperation operation, bool bounded)
+    {
+        bytes32 record = BytecodeStorage.readWord(tokensData, feedsOffset + feedIndex * FEED_SIZE);
+        feed = AggregatorV3Interface(address(bytes20(record)));
+        timeout = uint48(bytes6(record << 160));
+        operation = FeedOperation(uint8(bytes1(record << 208)));
+        bounded = uint8(bytes1(record << 216)) != 0;
     }
 
     function minFeedsLength(address[][] memory tokenFeeds) internal pure returns (uint8) {
@@ -260,10 +541,10 @@ contract PoolTokens {
         return minLength;
     }
 
-    function maxFeedsLength(address[][] memory tokenFeeds) internal pure returns (uint8) {
-        uint8 maxLength;
+    function maxFeedsLength(address[][] memory tokenFeeds) internal pure returns (uint256) {
+        uint256 maxLength;
         for (uint8 i = 0; i < tokenFeeds.length; i++) {
-            maxLength = uint8(Math.max(maxLength, tokenFeeds[i].length));
+            maxLength = Math.max(maxLength, tokenFeeds[i].length);
         }
         return maxLength;
     }
@@ -0,0 +1,60 @@
+// SPDX-License-Identifier: ISC
+pragma solidity 0.8.9;
+
+import "@chainlink/contracts/src/v0.8/interfaces/AggregatorV3Interface.sol";
+
+/// Chainlink feed stand-in that acts as both the proxy and its aggregator. Like an
+/// OffchainAggregator, it clamps answers to minAnswer and maxAnswer, and a round can be set to be
+/// answered in an earlier round. The proxy can also be pointed to another aggregator.
+contract BoundedAggregatorMock is AggregatorV3Interface {
+    uint8 public immutable decimals;
+    string public constant description = "bounded mock";
+    uint256 public constant version = 4;
+
+    int192 public minAnswer;
+    int192 public maxAnswer;
+    int256 public latestAnswer;
+    uint256 public latestTimestamp;
+    uint80 public latestRound;
+    uint80 public answeredInRound;
+    address public aggregator = address(this);
+
+    constructor(uint8 _decimals, int256 initialAnswer, int192 _minAnswer, int192 _maxAnswer) {
+        decimals = _decimals;
+        setBounds(_minAnswer, _maxAnswer);
+        updateAnswer(initialAnswer);
+    }
+
+    function setAggregator(address _aggregator) external {
+        aggregator = _aggregator;
+    }
+
+    function setBounds(int192 _minAnswer, int192 _maxAnswer) public {
+        minAnswer = _minAnswer;
+        maxAnswer = _maxAnswer;
+    }
+
+    /// Starts a new round answered with `answer` clamped to the bounds
+    function updateAnswer(int256 answer) public {
+        if (answer < minAnswer) answer = minAnswer;
+        if (answer > maxAnswer) answer = maxAnswer;
+        latestAnswer = answer;
+        latestTimestamp = block.timestamp;
+        latestRound++;
+        answeredInRound = latestRound;
+    }
+
+    function setAnsweredInRound(uint80 round) external {
+        answeredInRound = round;
+    }
+
+    function getRoundData(
+        uint80 roundId
+    ) external view returns (uint80, int256, uint256, uint256, uint80) {
+        return (roundId, latestAnswer, latestTimestamp, latestTimestamp, answeredInRound);
+    }
+
+    function latestRoundData() external view returns (uint80, int256, uint256, uint256, uint80) {
+        return (latestRound, latestAnswer, latestTimestamp, latestTimestamp, answeredInRound);
+    }
+}
@@ -0,0 +1,46 @@
+// SPDX-License-Identifier: ISC
+pragma solidity 0.8.9;
+
+/// Minimal stand-in for the Convex Booster that only keeps the pool registry read by
+/// ConvexStakingWrapper.initialize().
+contract ConvexBoosterMock {
+    struct PoolInfo {
+        address lptoken;
+        address token;
+        address gauge;
+        address crvRewards;
+        address stash;
+        bool shutdown;
+    }
+
+    PoolInfo[] public poolInfo;
+
+    function addPool(
+        address _lptoken,
+        address _token,
+        address _gauge,
+        address _crvRewards,
+        address _stash
+    ) external returns (uint256) {
+        poolInfo.push(
+            PoolInfo({
+                lptoken: _lptoken,
+                token: _token,
+                gauge: _gauge,
+                crvRewards: _crvRewards,
+                stash: _stash,
+                shutdown: false
+            })
+        );
+        return poolInfo.length - 1;
+    }
+
+    function shutdownPool(uint256 _pid) external returns (bool) {
+        poolInfo[_pid].shutdown = true;
+        return true;
+    }
+
+    function poolLength() external view returns (uint256) {
+        return poolInfo.length;
+    }
+}
@@ -0,0 +1,116 @@
+// SPDX-License-Identifier: ISC
+pragma solidity 0.8.9;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "./ConvexBoosterMock.sol";
+import "./RewardPoolMock.sol";
+
+/// Stand-in for ConvexStakingWrapper that takes the booster, CRV and CVX addresses as
+/// constructor arguments instead of using mainnet constants. Rewards are not tracked per holder:
+/// `getReward` claims from the reward pools and forwards everything claimed to `_account`.
+contract ConvexStakingWrapperMock is ERC20 {
+    struct RewardType {
+        address reward_token;
+        address reward_pool;
+        uint128 reward_integral;
+        uint128 reward_remaining;
+    }
+
+    address public immutable convexBooster;
+    address public immutable crv;
+    address public immutable cvx;
+    address public curveToken;
+    address public convexToken;
+    address public convexPool;
+    uint256 public convexPoolId;
+    uint256 private constant CRV_INDEX = 0;
+    uint256 private constant CVX_INDEX = 1;
+
+    RewardType[] public rewards;
+    mapping(address => uint256) public registeredRewards;
+
+    bool public isShutdown;
+    bool public isInit;
+
+    constructor(
+        address _convexBooster,
+        address _crv,
+        address _cvx
+    ) ERC20("StakedConvexToken", "stkCvx") {
+        convexBooster = _convexBooster;
+        crv = _crv;
+        cvx = _cvx;
+    }
+
+    function initialize(uint256 _poolId) external {
+        require(!isInit, "already init");
+
+        (address _lptoken, address _token, , address _rewards, , ) = ConvexBoosterMock(
+            convexBooster
+        ).poolInfo(_poolId);
+        curveToken = _lptoken;
+        convexToken = _token;
+        convexPool = _rewards;
+        convexPoolId = _poolId;
+        isInit = true;
+
+        addRewards();
+    }
+
+    function shutdown() external {
+        isShutdown = true;
+    }
+
+    function addRewards() public {
+        address mainPool = convexPool;
+
+        if (rewards.length == 0) {
+            rewards.push(RewardType(crv, mainPool, 0, 0));
+            rewards.push(RewardType(cvx, address(0), 0, 0));
+            registeredRewards[crv] = CRV_INDEX + 1;
+            registeredRewards[cvx] = CVX_INDEX + 1;
+        }
+
+        uint256 extraCount = RewardPoolMock(mainPool).extraRewardsLength();
+        for (uint256 i = 0; i < extraCount; i++) {
+            address extraPool = RewardPoolMock(mainPool).extraRewards(i);
+            address extraToken = RewardPoolMock(extraPool).rewardToken();
+            if (extraToken == cvx) {
+                rewards[CVX_INDEX].reward_pool = extraPool;
+            } else if (registeredRewards[extraToken] == 0) {
+                rewards.push(RewardType(extraToken, extraPool, 0, 0));
+                registeredRewards[extraToken] = rewards.length;
+            }
+        }
+    }
+
+    function rewardLength() external view returns (uint256) {
+        return rewards.length;
+    }
+
+    function getReward(address _account) external {
+        RewardPoolMock(convexPool).getReward(address(this), true);
+
+        for (uint256 i = 0; i < rewards.length; i++) {
+            IERC20 rewardToken = IERC20(rewards[i].reward_token);
+            rewardToken.transfer(_account, rewardToken.balanceOf(address(this)));
+        }
+    }
+
+    function deposit(uint256 _amount, address _to) external {
+        require(!isShutdown, "shutdown");
+        _mint(_to, _amount);
+        IERC20(curveToken).transferFrom(msg.sender, address(this), _amount);
+    }
+
+    function stake(uint256 _amount, address _to) external {
+        require(!isShutdown, "shutdown");
+        _mint(_to, _amount);
+        IERC20(convexToken).transferFrom(msg.sender, address(this), _amount);
+    }
+
+    function withdrawAndUnwrap(uint256 _amount) external {
+        _burn(msg.sender, _amount);
+        IERC20(curveToken).transfer(msg.sender, _amount);
+    }
+}
@@ -1,13 +1,21 @@
 // SPDX-License-Identifier: ISC
 pragma solidity 0.8.9;
 
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
 import "../PoolTokens.sol";
 
+/// Curve pool stand-in whose balances, coins and virtual price are set directly by tests.
+/// `exchange` only updates the accounting balances at a 1:1 rate (adjusted for decimals) and
+/// does not move any tokens.
 contract CurvePoolMock is ICurvePool {
     uint[] internal _balances;
     address[] public coins;
     address[] public underlying_coins;
     address[] public base_coins;
+    uint256 public get_virtual_price = 1e18;
+    address public token;
+    address public base_pool;
+    bool public is_killed;
 
     constructor(uint[] memory intialBalances, address[] memory _coins) {
         _balances = intialBalances;
@@ -18,17 +26,48 @@ contract CurvePoolMock is ICurvePool {
         _balances = newBalances;
     }
 
-    function balances(uint index) external view returns (uint256) {
-        return _balances[index];
+    function setCoins(address[] memory _coins) external {
+        coins = _coins;
+    }
+
+    function setUnderlyingCoins(address[] memory _coins) external {
+        underlying_coins = _coins;
+    }
+
+    function setBaseCoins(address[] memory _coins) external {
+        base_coins = _coins;
+    }
+
+    function setVirtualPrice(uint256 newPrice) external {
+        get_virtual_price = newPrice;
     }
 
-    function get_virtual_price() external pure returns (uint256) {
-        return 1;
+    function setToken(address _token) external {
+        token = _token;
     }
 
-    function token() external pure returns (address) {
-        return address(0);
+    function setBasePool(address _basePool) external {
+        base_pool = _basePool;
     }
 
-    function exchange(int128, int128, uint256, uint256) external {}
+    function setKilled(bool killed) external {
+        is_killed = killed;
+    }
+
+    function balances(uint index) external view returns (uint256) {
+        return _balances[index];
+    }
+
+    function exchange(int128 i, int128 j, uint256 dx, uint256 min_dy) external {
+        uint256 from = uint256(uint128(i));
+        uint256 to = uint256(uint128(j));
+        uint8 fromDecimals = IERC20Metadata(coins[from]).decimals();
+        uint8 toDecimals = IERC20Metadata(coins[to]).decimals();
+
+        uint256 dy = (dx * 10 ** toDecimals) / 10 ** fromDecimals;
+        require(dy >= min_dy, "Exchange resulted in fewer coins than expected");
+
+        _balances[from] += dx;
+        _balances[to] -= dy;
+    }
 }
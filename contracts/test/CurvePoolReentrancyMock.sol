@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: ISC
+pragma solidity 0.8.9;
+
+import "./CurvePoolMock.sol";
+
+/// CurvePoolMock with a nonreentrant lock like Vyper's. `removeLiquidityWithCallback` holds the
+/// lock while it calls `target` with a manipulated virtual price, like the ETH transfer in
+/// remove_liquidity of pools holding ETH.
+contract CurvePoolReentrancyMock is CurvePoolMock {
+    bool internal locked;
+    bool public callbackSuccess;
+    bytes public callbackResult;
+
+    modifier nonreentrant() {
+        require(!locked); // solhint-disable-line reason-string
+        locked = true;
+        _;
+        locked = false;
+    }
+
+    constructor(
+        uint[] memory intialBalances,
+        address[] memory _coins
+    ) CurvePoolMock(intialBalances, _coins) {}
+
+    /// No-op when called with zero arguments
+    function remove_liquidity(uint256, uint256[3] calldata) external nonreentrant {}
+
+    function removeLiquidityWithCallback(
+        uint256 manipulatedVirtualPrice,
+        address target,
+        bytes calldata data
+    ) external nonreentrant {
+        uint256 virtualPrice = get_virtual_price;
+        get_virtual_price = manipulatedVirtualPrice;
+        (callbackSuccess, callbackResult) = target.call(data);
+        get_virtual_price = virtualPrice;
+    }
+}
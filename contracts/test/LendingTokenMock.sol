@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: ISC
+pragma solidity 0.8.9;
+
+import "./TokenMock.sol";
+import "../PoolTokens.sol";
+
+/// Wrapped coin of a Curve Lending pool with a rate set directly by tests. Answers both as a
+/// Compound cToken and as a Yearn yToken.
+contract LendingTokenMock is TokenMock, ICToken, IYToken {
+    uint256 public rate; // D18{qUnderlying/qWrapped}
+
+    constructor(
+        string memory name,
+        string memory symbol,
+        uint8 decimals_,
+        uint256 rate_
+    ) TokenMock(name, symbol, decimals_) {
+        rate = rate_;
+    }
+
+    function setRate(uint256 rate_) external {
+        rate = rate_;
+    }
+
+    function exchangeRateStored() external view returns (uint256) {
+        return rate;
+    }
+
+    function getPricePerFullShare() external view returns (uint256) {
+        return rate;
+    }
+}
@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: ISC
+pragma solidity 0.8.9;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+/// Stand-in for a Convex BaseRewardPool or VirtualBalanceRewardPool. Rewards are funded by
+/// sending reward tokens to this contract and every claim pays out the whole balance.
+contract RewardPoolMock {
+    address public immutable rewardToken;
+    address[] public extraRewards;
+
+    constructor(address _rewardToken) {
+        rewardToken = _rewardToken;
+    }
+
+    function addExtraReward(address _reward) external returns (bool) {
+        extraRewards.push(_reward);
+        return true;
+    }
+
+    function extraRewardsLength() external view returns (uint256) {
+        return extraRewards.length;
+    }
+
+    function earned(address) external view returns (uint256) {
+        return IERC20(rewardToken).balanceOf(address(this));
+    }
+
+    function getReward(address _account, bool _claimExtras) public returns (bool) {
+        IERC20(rewardToken).transfer(_account, IERC20(rewardToken).balanceOf(address(this)));
+
+        if (_claimExtras) {
+            for (uint256 i = 0; i < extraRewards.length; i++) {
+                RewardPoolMock(extraRewards[i]).getReward(_account, false);
+            }
+        }
+        return true;
+    }
+}
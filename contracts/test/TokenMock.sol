@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: ISC
+pragma solidity 0.8.9;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// ERC20 with configurable decimals and unrestricted mint/burn. Used as a stand-in for pool
+/// coins, LP tokens and reward tokens in tests that do not fork mainnet.
+contract TokenMock is ERC20 {
+    uint8 private immutable _decimals;
+
+    constructor(string memory name, string memory symbol, uint8 decimals_) ERC20(name, symbol) {
+        _decimals = decimals_;
+    }
+
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
+
+    function mint(address recipient, uint256 amount) external {
+        _mint(recipient, amount);
+    }
+
+    function burn(address sender, uint256 amount) external {
+        _burn(sender, amount);
+    }
+}
@@ -4,21 +4,88 @@ import '@nomiclabs/hardhat-vyper'
 import '@nomicfoundation/hardhat-chai-matchers'
 import '@nomicfoundation/hardhat-toolbox'
 import 'hardhat-dependency-compiler'
-import { HardhatUserConfig } from 'hardhat/config'
+import { HardhatUserConfig, task, types } from 'hardhat/config'
 import dotenv from 'dotenv'
 
 dotenv.config()
 
 const { MAINNET_RPC_URL, MNEMONIC, GOERLI_RPC_URL } = process.env
 
+task('deploy-collateral', 'Deploys a CvxCurveStableLPCollateral for a Curve pool preset')
+  .addParam('pool', 'Name of the pool preset in scripts/configuration.ts, e.g. 3pool')
+  .addFlag('priceRange', 'Deploy CvxCurveStableLPRangeCollateral for newer Reserve releases')
+  .setAction(async ({ pool, priceRange }: { pool: string; priceRange: boolean }) => {
+    // Scripts import the hardhat runtime, so they can only be loaded once the task runs
+    const { deployCollateral } = await import('./scripts/deploy')
+    await deployCollateral(pool, priceRange)
+  })
+
+task('validate-config', 'Checks a collateral configuration against the target chain')
+  .addOptionalParam('pool', 'Name of the pool preset to check instead of the network configuration')
+  .setAction(async ({ pool }: { pool?: string }) => {
+    const { validate } = await import('./scripts/validate')
+    await validate(pool)
+  })
+
+task('monitor', 'Periodically reports the health of deployed CvxCurveStableLPCollateral instances')
+  .addVariadicPositionalParam('collaterals', 'Addresses of the collaterals to watch')
+  .addOptionalParam('interval', 'Seconds between readings', 60, types.int)
+  .addOptionalParam('warnAt', 'Share of a threshold from which values are reported as WARN', '0.8')
+  .addFlag('json', 'Print JSON lines instead of a table')
+  .addFlag('once', 'Read every collateral once and exit')
+  .setAction(async (args, hre) => {
+    const { monitor } = await import('./scripts/monitor')
+    await monitor({
+      collaterals: args.collaterals,
+      interval: args.interval,
+      json: args.json,
+      warnAt: hre.ethers.utils.parseUnits(args.warnAt, 18).toBigInt(),
+      once: args.once,
+    })
+  })
+
+task('health-report', 'Explains the status of a deployed CvxCurveStableLPCollateral')
+  .addPositionalParam('collateral', 'Address of the collateral')
+  .setAction(async ({ collateral }: { collateral: string }, hre) => {
+    const { readHealthReport, printHealthReport } = await import('./scripts/healthReport')
+    const contract = await hre.ethers.getContractAt('CvxCurveStableLPCollateral', collateral)
+    printHealthReport(await readHealthReport(contract))
+  })
+
+task('backtest', 'Replays historical prices and pool balances through mock collaterals')
+  .addPositionalParam('data', 'CSV or JSON file with the history')
+  .addOptionalParam('pool', 'Name of the pool preset for the settings that are not swept', '3pool')
+  .addOptionalParam('defaultThresholds', 'Comma-separated defaultThreshold values', '0.05')
+  .addOptionalParam('delays', 'Comma-separated delayUntilDefault values in seconds', '86400')
+  .addOptionalParam('poolRatioThresholds', 'Comma-separated poolRatioThreshold values', '0.3')
+  .addFlag('json', 'Print one JSON line per parameter set')
+  .setAction(async (args, hre) => {
+    const { backtest } = await import('./scripts/backtest')
+    const list = (values: string, decimals: number) =>
+      values
+        .split(',')
+        .map((value) => hre.ethers.utils.parseUnits(value.trim(), decimals).toBigInt())
+    await backtest({
+      data: args.data,
+      pool: args.pool,
+      defaultThresholds: list(args.defaultThresholds, 18),
+      delaysUntilDefault: list(args.delays, 0),
+      poolRatioThresholds: list(args.poolRatioThresholds, 18),
+      json: args.json,
+    })
+  })
+
 const config: HardhatUserConfig = {
   networks: {
     hardhat: {
       allowUnlimitedContractSize: true,
-      forking: {
-        url: MAINNET_RPC_URL || '',
-        blockNumber: 16074053,
-      },
+      // Tests that need mainnet state are skipped when no RPC URL is given
+      forking: MAINNET_RPC_URL
+        ? {
+            url: MAINNET_RPC_URL,
+            blockNumber: 16074053,
+          }
+        : undefined,
     },
     mainnet: {
       chainId: 1,
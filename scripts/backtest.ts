@@ -0,0 +1,270 @@
+import fs from 'fs'
+import path from 'path'
+import hre, { ethers } from 'hardhat'
+import { MockV3Aggregator__factory } from '../typechain-types'
+import { getPoolPreset } from './configuration'
+import { deployMockPool, deployMockPoolCollateral, MockCoin, MOCK_FEED_DECIMALS } from './mocks'
+import { runScenario, ScenarioStep, ScenarioTarget, TimelinePoint } from './scenario'
+
+// Disables the read-only reentrancy check, which the pool mock has no lock for
+const NO_LOCK_POKE = '0x00000000'
+
+// One row of history, keyed by column. `timestamp` is in unix seconds and `virtualPrice` is the
+// pool's virtual price. Each coin of the pool has a `<coin>Balance` column with its pool balance
+// in whole coins and a `<coin>` column with its USD price, and can have a `<coin>Decimals` column,
+// only read from the first row, for its decimals if not 18. The optional `target` column is the
+// USD price of the target unit. Values are decimals, and an empty or missing one keeps the
+// previous row's.
+export type HistoryRow = Record<string, string>
+
+export interface BacktestParams {
+  defaultThreshold: bigint // D18{1}
+  delayUntilDefault: bigint // {s}
+  poolRatioThreshold: bigint // D18{1}
+}
+
+export interface StatusChange {
+  timestamp: number
+  status: string
+}
+
+export interface BacktestResult {
+  params: BacktestParams
+  iffyAt?: number // Timestamp at which the collateral first went IFFY
+  disabledAt?: number // Timestamp at which the collateral went DISABLED
+  iffyTime: number // {s} spent IFFY
+  changes: StatusChange[]
+}
+
+// Reads a .csv file with a header line or a .json file holding an array of rows
+export const loadHistory = (file: string): HistoryRow[] => {
+  const content = fs.readFileSync(file, 'utf8')
+  if (path.extname(file) === '.json') {
+    const rows: Record<string, string | number>[] = JSON.parse(content)
+    return rows.map((row) =>
+      Object.fromEntries(Object.entries(row).map(([key, value]) => [key, String(value)]))
+    )
+  }
+
+  const [header, ...lines] = content
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line !== '')
+  const columns = header.split(',').map((column) => column.trim())
+  return lines.map((line) => {
+    const values = line.split(',')
+    return Object.fromEntries(columns.map((column, i) => [column, (values[i] ?? '').trim()]))
+  })
+}
+
+const columnsOf = (rows: HistoryRow[]) => new Set(rows.flatMap((row) => Object.keys(row)))
+
+// The coins of the pool, in the order of their balance columns
+export const historyCoins = (rows: HistoryRow[]): MockCoin[] => {
+  const coins = [...columnsOf(rows)]
+    .filter((column) => column.endsWith('Balance'))
+    .map((column) => column.slice(0, -'Balance'.length))
+    .map((symbol) => ({
+      symbol,
+      decimals: Number(rows[0]?.[`${symbol}Decimals`] || 18),
+    }))
+  if (coins.length === 0) throw new Error('history has no <coin>Balance columns')
+  return coins
+}
+
+// Turns history into scenario steps timed from the first row, naming each coin's feed after the
+// coin. Every step sets all the feeds, so they never go stale between rows however far apart the
+// rows are.
+export const historyToSteps = (rows: HistoryRow[], coins: MockCoin[]): ScenarioStep[] => {
+  if (rows.length === 0) throw new Error('history has no rows')
+  const start = Number(rows[0].timestamp)
+  const feeds = coins.map((coin) => coin.symbol)
+  if (columnsOf(rows).has('target')) feeds.push('target')
+  const prices: Record<string, bigint> = {}
+  const balances: bigint[] = []
+
+  return rows.map((row, index) => {
+    if (!row.timestamp) throw new Error(`row ${index + 1} has no timestamp`)
+    const step: ScenarioStep = { at: Number(row.timestamp) - start }
+
+    for (const feed of feeds) {
+      if (row[feed])
+        prices[feed] = ethers.utils.parseUnits(row[feed], MOCK_FEED_DECIMALS).toBigInt()
+      if (prices[feed] === undefined) throw new Error(`the first row needs a ${feed} price`)
+    }
+    step.feeds = { ...prices }
+
+    let balancesChanged = false
+    coins.forEach((coin, i) => {
+      const value = row[`${coin.symbol}Balance`]
+      if (value) {
+        balances[i] = ethers.utils.parseUnits(value, coin.decimals).toBigInt()
+        balancesChanged = true
+      }
+      if (balances[i] === undefined) throw new Error(`the first row needs a ${coin.symbol}Balance`)
+    })
+    if (balancesChanged) step.balances = balances.slice()
+
+    if (row.virtualPrice) {
+      step.virtualPrice = ethers.utils.parseUnits(row.virtualPrice, 18).toBigInt()
+    }
+    return step
+  })
+}
+
+// Every combination of the given values
+export const sweep = (
+  defaultThresholds: bigint[],
+  delaysUntilDefault: bigint[],
+  poolRatioThresholds: bigint[]
+): BacktestParams[] =>
+  defaultThresholds.flatMap((defaultThreshold) =>
+    delaysUntilDefault.flatMap((delayUntilDefault) =>
+      poolRatioThresholds.map((poolRatioThreshold) => ({
+        defaultThreshold,
+        delayUntilDefault,
+        poolRatioThreshold,
+      }))
+    )
+  )
+
+// Times come from the chain rather than the rows: the collateral went IFFY at the refresh() that
+// set its whenDefault, delayUntilDefault before it, and DISABLED at whenDefault, which can fall
+// between rows. They are shifted so that the first row's refresh() is at `start`.
+const summarize = (
+  params: BacktestParams,
+  start: number,
+  timeline: TimelinePoint[]
+): BacktestResult => {
+  const origin = timeline[0].timestamp
+  const result: BacktestResult = { params, iffyTime: 0, changes: [] }
+  const change = (timestamp: number, status: string) => {
+    result.changes.push({ timestamp: start + timestamp - origin, status })
+  }
+
+  let iffySince: number | undefined
+  for (const point of timeline) {
+    if (point.status === 'SOUND') {
+      if (iffySince !== undefined) result.iffyTime += point.timestamp - iffySince
+      if (iffySince !== undefined || result.changes.length === 0) change(point.timestamp, 'SOUND')
+      iffySince = undefined
+    } else if (point.status === 'IFFY' && iffySince === undefined) {
+      iffySince = point.whenDefault! - Number(params.delayUntilDefault)
+      result.iffyAt = result.iffyAt ?? start + iffySince - origin
+      change(iffySince, 'IFFY')
+    } else if (point.status === 'DISABLED') {
+      // Straight from SOUND on a hard default
+      if (iffySince !== undefined) result.iffyTime += point.whenDefault! - iffySince
+      iffySince = undefined
+      result.disabledAt = start + point.whenDefault! - origin
+      change(point.whenDefault!, 'DISABLED')
+      // DISABLED is final
+      return result
+    }
+  }
+  if (iffySince !== undefined)
+    result.iffyTime += timeline[timeline.length - 1].timestamp - iffySince
+  return result
+}
+
+// Deploys a mock pool of the history's coins with a collateral for each parameter set and
+// replays the history through it. Every other setting comes from the pool preset `poolName`,
+// except for the settings of each token and feed, which are for the preset's own pool. Only runs
+// on the in-process hardhat network, since it deploys mocks.
+export const runBacktest = async (
+  rows: HistoryRow[],
+  paramSets: BacktestParams[],
+  poolName = '3pool'
+): Promise<BacktestResult[]> => {
+  if (hre.network.name !== 'hardhat') {
+    throw new Error(
+      `backtests deploy mocks and only run on the hardhat network, not ${hre.network.name}`
+    )
+  }
+  const coins = historyCoins(rows)
+  const steps = historyToSteps(rows, coins)
+  const start = Number(rows[0].timestamp)
+  const { collateralOpts } = getPoolPreset(poolName)
+  const targetPrice = steps[0].feeds?.target
+  if (collateralOpts.targetPegFeed !== ethers.constants.AddressZero && targetPrice === undefined) {
+    throw new Error(`the ${poolName} preset has a targetPegFeed, the history needs a target column`)
+  }
+
+  const MockV3AggregatorFactory = <MockV3Aggregator__factory>(
+    await ethers.getContractFactory('MockV3Aggregator')
+  )
+  const results: BacktestResult[] = []
+  for (const params of paramSets) {
+    const pool = await deployMockPool(coins)
+    const feeds: ScenarioTarget['feeds'] = {}
+    coins.forEach((coin, i) => (feeds[coin.symbol] = pool.feeds[i]))
+    let targetPegFeed = ethers.constants.AddressZero
+    if (targetPrice !== undefined) {
+      const targetFeed = await MockV3AggregatorFactory.deploy(MOCK_FEED_DECIMALS, targetPrice)
+      feeds.target = targetFeed
+      targetPegFeed = targetFeed.address
+    }
+
+    const collateral = await deployMockPoolCollateral(pool, {
+      ...collateralOpts,
+      poolType: 0,
+      wrappedRates: [],
+      targetWeights: [],
+      feedTimeouts: [],
+      feedOperations: [],
+      defaultThresholds: [],
+      reentrancyLockPoke: NO_LOCK_POKE,
+      targetPegFeed,
+      ...params,
+    })
+    const timeline = await runScenario(
+      { collateral, curvePool: pool.curvePool, feeds },
+      { name: 'backtest', steps }
+    )
+    results.push(summarize(params, start, timeline))
+  }
+  return results
+}
+
+const pct = (value: bigint) => `${ethers.utils.formatUnits(value * 100n, 18)}%`
+
+const date = (timestamp?: number) =>
+  timestamp === undefined ? 'never' : new Date(timestamp * 1000).toISOString()
+
+export const formatBacktest = (result: BacktestResult): string => {
+  const { defaultThreshold, delayUntilDefault, poolRatioThreshold } = result.params
+  return [
+    `defaultThreshold ${pct(defaultThreshold)}, delayUntilDefault ${delayUntilDefault}s, ` +
+      `poolRatioThreshold ${pct(poolRatioThreshold)}`,
+    `  IFFY at ${date(result.iffyAt)}, DISABLED at ${date(result.disabledAt)}, ` +
+      `IFFY for ${(result.iffyTime / 3600).toFixed(1)}h`,
+    ...result.changes.map((change) => `  ${date(change.timestamp)} ${change.status}`),
+  ].join('\n')
+}
+
+export interface BacktestOptions {
+  data: string // Path of the CSV or JSON history
+  pool: string // Name of the pool preset for the settings that are not swept
+  defaultThresholds: bigint[]
+  delaysUntilDefault: bigint[]
+  poolRatioThresholds: bigint[]
+  json: boolean // Print one JSON line per parameter set instead of text
+}
+
+export async function backtest(options: BacktestOptions) {
+  const results = await runBacktest(
+    loadHistory(options.data),
+    sweep(options.defaultThresholds, options.delaysUntilDefault, options.poolRatioThresholds),
+    options.pool
+  )
+  for (const result of results) {
+    console.log(
+      options.json
+        ? // bigint is not serializable by default
+          JSON.stringify(result, (_, value) =>
+            typeof value === 'bigint' ? value.toString() : value
+          )
+        : formatBacktest(result)
+    )
+  }
+}
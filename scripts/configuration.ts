@@ -1,13 +1,24 @@
 import { ethers } from 'hardhat'
 
-interface NetworkConfig {
+export interface NetworkConfig {
   collateralOpts: CollateralOptsConfig
-  oracleLib?: string // Address of OracleLib. Set this if you want to use an existing deployment of OracleLib.
   convexStakingWrapper?: string // Address of Wrapper Token for Staked Convex. Set this if you want to use an existing deployment of ConvexStakingWrapper.
   convexPoolId: number
+  priceRange?: PriceRangeOptsConfig // Needed to deploy CvxCurveStableLPRangeCollateral
+  sequencer?: SequencerOptsConfig // Only on L2s, where prices revert while the sequencer is down
 }
 
-interface CollateralOptsConfig {
+export interface SequencerOptsConfig {
+  uptimeFeed: string // Chainlink's L2 sequencer uptime feed of the network
+  gracePeriod: bigint // Seconds that prices keep reverting after the sequencer restarts
+}
+
+export interface PriceRangeOptsConfig {
+  priceTimeout: bigint
+  oracleErrors: bigint[][]
+}
+
+export interface CollateralOptsConfig {
   lpToken: string
   nTokens: number
   tokensPriceFeeds: string[][]
@@ -19,8 +30,229 @@ interface CollateralOptsConfig {
   maxTradeVolume: bigint
   poolRatioThreshold: bigint
   defaultThreshold: bigint
+  pegHalfLife: bigint
   delayUntilDefault: bigint
+  shutdownStatus: number
+  revenueHiding: bigint
   poolType: number
+  wrappedRates: number[]
+  pricingMode: number
+  imbalanceMode: number
+  targetWeights: bigint[]
+  reentrancyLockPoke: string
+  feedTimeouts: bigint[][]
+  feedOperations: number[][]
+  defaultThresholds: bigint[]
+}
+
+// A pool preset holds everything needed to deploy a collateral for a Curve pool except the
+// network-wide settings like `sequencer`.
+// Presets are deployed with the sequencer of the network
+export type PoolPreset = Omit<NetworkConfig, 'sequencer'>
+
+// Mainnet Chainlink feeds used by the presets
+const DAI_USD_FEED = '0xAed0c38402a5d19df6E4c03F4E2DceD6e29c1ee9'
+const USDC_USD_FEED = '0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6'
+const USDT_USD_FEED = '0x3E7d1eAB13ad0104d2750B8863b489D65364e32D'
+const ETH_USD_FEED = '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419'
+const STETH_USD_FEED = '0xCfE54B5cD566aB89272946F602D76Ea879CAb4a8'
+const GUSD_USD_FEED = '0xa89f5d2365ce98B3cD68012b6f503ab1416f0B52'
+const BTC_USD_FEED = '0xF4030086522a5bEEa4988F8cA5B36dbC97BeE88c'
+const WBTC_BTC_FEED = '0xfdFD9C85aD200c506Cf9e21F1FD8dd01932FBB23'
+
+// Deviation thresholds of the feeds above, used as their oracleError by the presets
+const FEED_ORACLE_ERRORS: { [feed: string]: bigint } = {
+  [DAI_USD_FEED]: 25n * 10n ** 14n, // 0.25%
+  [USDC_USD_FEED]: 25n * 10n ** 14n, // 0.25%
+  [USDT_USD_FEED]: 25n * 10n ** 14n, // 0.25%
+  [ETH_USD_FEED]: 5n * 10n ** 15n, // 0.5%
+  [STETH_USD_FEED]: 1n * 10n ** 16n, // 1%
+  [GUSD_USD_FEED]: 25n * 10n ** 14n, // 0.25%
+  [BTC_USD_FEED]: 5n * 10n ** 15n, // 0.5%
+  [WBTC_BTC_FEED]: 2n * 10n ** 16n, // 2%
+}
+
+// Heartbeats of the feeds above, used as their oracleTimeout by the presets
+const FEED_HEARTBEATS: { [feed: string]: bigint } = {
+  [DAI_USD_FEED]: 3600n,
+  [USDC_USD_FEED]: 86400n,
+  [USDT_USD_FEED]: 86400n,
+  [ETH_USD_FEED]: 3600n,
+  [STETH_USD_FEED]: 3600n,
+  [GUSD_USD_FEED]: 86400n,
+  [BTC_USD_FEED]: 3600n,
+  [WBTC_BTC_FEED]: 86400n,
+}
+
+// CollateralStatus the presets go to while the Convex pool or the Curve pool is shut down
+const IFFY = 1
+
+// Share of the virtual price the presets hide from refPerTok() to absorb its rounding, 1e-6
+const REVENUE_HIDING = 10n ** 12n
+
+// PricingMode of CvxCurveStableLPCollateral
+const BALANCES_PRICING = 0
+
+// ImbalanceMode of CvxCurveStableLPCollateral
+const SPREAD_IMBALANCE = 0
+const VALUE_WEIGHTED_IMBALANCE = 1
+
+// Disables the read-only reentrancy check, which only pools holding native ETH need
+const NO_LOCK_POKE = '0x00000000'
+
+// Settings shared by pools of USD stablecoins
+const usdPoolOpts = {
+  targetPegFeed: ethers.constants.AddressZero,
+  targetName: ethers.utils.formatBytes32String('USD'),
+  oracleTimeout: 86400n,
+  fallbackPrice: 1n * 10n ** 18n,
+  maxTradeVolume: 1000000n,
+  poolRatioThreshold: 3n * 10n ** 17n, // 30%
+  defaultThreshold: 5n * 10n ** 16n, // 5%
+  pegHalfLife: 0n,
+  delayUntilDefault: 86400n,
+  shutdownStatus: IFFY,
+  revenueHiding: REVENUE_HIDING,
+  wrappedRates: [],
+  pricingMode: BALANCES_PRICING,
+  imbalanceMode: SPREAD_IMBALANCE,
+  targetWeights: [],
+  reentrancyLockPoke: NO_LOCK_POKE,
+  feedTimeouts: [],
+  feedOperations: [],
+  defaultThresholds: [],
+}
+
+// Older pools like sUSD and Compound index coins and balances with int128, which PoolTokens does
+// not call, so they have no preset
+export const poolPresets: { [name: string]: PoolPreset } = {
+  '3pool': {
+    convexPoolId: 9,
+    collateralOpts: {
+      ...usdPoolOpts,
+      lpToken: '0x6c3F90f043a72FA612cbac8115EE7e52BDe6E490',
+      curvePool: '0xbebc44782c7db0a1a60cb6fe97d0b483032ff1c7',
+      poolType: 0,
+      nTokens: 3, // DAI, USDC, USDT
+      tokensPriceFeeds: [[DAI_USD_FEED], [USDC_USD_FEED], [USDT_USD_FEED]],
+    },
+  },
+  aave: {
+    convexPoolId: 24,
+    collateralOpts: {
+      ...usdPoolOpts,
+      lpToken: '0xFd2a8fA60Abd58Efe3EeE34dd494cD491dC14900',
+      curvePool: '0xDeBF20617708857ebe4F679508E7b7863a8A8EeE',
+      poolType: 1,
+      nTokens: 3, // Underlying DAI, USDC, USDT
+      tokensPriceFeeds: [[DAI_USD_FEED], [USDC_USD_FEED], [USDT_USD_FEED]],
+      // aTokens are 1:1 with their underlying so the pool balances need no conversion
+    },
+  },
+  gusd: {
+    convexPoolId: 10,
+    collateralOpts: {
+      ...usdPoolOpts,
+      lpToken: '0xD2967f45c4f384DEEa880F807Be904762a3DeA07',
+      curvePool: '0x4f062658EaAF2C1ccf8C8e36D6824CDf41167956',
+      poolType: 2,
+      nTokens: 4, // GUSD, then base DAI, USDC, USDT
+      tokensPriceFeeds: [[GUSD_USD_FEED], [DAI_USD_FEED], [USDC_USD_FEED], [USDT_USD_FEED]],
+    },
+  },
+  bbtc: {
+    convexPoolId: 19,
+    collateralOpts: {
+      lpToken: '0x410e3E86ef427e30B9235497143881f717d93c2A',
+      curvePool: '0x071c661B4DeefB59E2a3DdB20Db036821eeE8F4b',
+      poolType: 2,
+      nTokens: 4, // bBTC, then base renBTC, WBTC, sBTC
+      // bBTC has no Chainlink feed and is priced as BTC
+      tokensPriceFeeds: [
+        [BTC_USD_FEED],
+        [BTC_USD_FEED],
+        [WBTC_BTC_FEED, BTC_USD_FEED],
+        [BTC_USD_FEED],
+      ],
+      targetPegFeed: BTC_USD_FEED,
+      targetName: ethers.utils.formatBytes32String('BTC'),
+      oracleTimeout: FEED_HEARTBEATS[BTC_USD_FEED], // For targetPegFeed
+      fallbackPrice: 20000n * 10n ** 18n,
+      maxTradeVolume: 1000000n,
+      poolRatioThreshold: 3n * 10n ** 17n, // 30%
+      defaultThreshold: 5n * 10n ** 16n, // 5%
+      pegHalfLife: 0n,
+      delayUntilDefault: 86400n,
+      shutdownStatus: IFFY,
+      revenueHiding: REVENUE_HIDING,
+      wrappedRates: [],
+      pricingMode: BALANCES_PRICING,
+      // The base pool LP balance is in BTC, compared by value against bBTC
+      imbalanceMode: VALUE_WEIGHTED_IMBALANCE,
+      targetWeights: [],
+      reentrancyLockPoke: NO_LOCK_POKE,
+      feedTimeouts: [],
+      feedOperations: [],
+      defaultThresholds: [],
+    },
+  },
+  steth: {
+    convexPoolId: 25,
+    collateralOpts: {
+      lpToken: '0x06325440D014e39736583c165C2963BA99fAf14E',
+      curvePool: '0xDC24316b9AE028F1497c275EB9192a3Ea0f67022',
+      poolType: 0,
+      // Curve lists native ETH as 0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE, read with 18 decimals
+      nTokens: 2, // ETH, stETH
+      tokensPriceFeeds: [[ETH_USD_FEED], [STETH_USD_FEED]],
+      targetPegFeed: ETH_USD_FEED,
+      targetName: ethers.utils.formatBytes32String('ETH'),
+      oracleTimeout: FEED_HEARTBEATS[ETH_USD_FEED], // For targetPegFeed
+      fallbackPrice: 1200n * 10n ** 18n,
+      maxTradeVolume: 1000000n,
+      poolRatioThreshold: 3n * 10n ** 17n, // 30%
+      defaultThreshold: 5n * 10n ** 16n, // 5%
+      pegHalfLife: 0n,
+      delayUntilDefault: 86400n,
+      shutdownStatus: IFFY,
+      revenueHiding: REVENUE_HIDING,
+      wrappedRates: [],
+      pricingMode: BALANCES_PRICING,
+      // ETH and stETH are compared by value instead of by balance
+      imbalanceMode: VALUE_WEIGHTED_IMBALANCE,
+      targetWeights: [],
+      // The ETH transfer of remove_liquidity can reenter while the virtual price is off
+      reentrancyLockPoke: ethers.utils.id('remove_liquidity(uint256,uint256[2])').slice(0, 10),
+      feedTimeouts: [],
+      feedOperations: [],
+      // stETH trades at a discount to ETH more often than stablecoins leave their peg
+      defaultThresholds: [5n * 10n ** 16n, 1n * 10n ** 17n],
+    },
+  },
+}
+
+// Presets time out each feed at its heartbeat in FEED_HEARTBEATS and price its oracleError at its
+// deviation threshold in FEED_ORACLE_ERRORS
+export const getPoolPreset = (name: string): PoolPreset => {
+  const preset = poolPresets[name]
+  if (preset === undefined) {
+    throw new Error(
+      `Unknown pool preset "${name}". Available presets: ${Object.keys(poolPresets).join(', ')}`
+    )
+  }
+  const priceRange = {
+    priceTimeout: 604800n,
+    oracleErrors: preset.collateralOpts.tokensPriceFeeds.map((feeds) =>
+      feeds.map((feed) => FEED_ORACLE_ERRORS[feed])
+    ),
+  }
+  const collateralOpts = {
+    ...preset.collateralOpts,
+    feedTimeouts: preset.collateralOpts.tokensPriceFeeds.map((feeds) =>
+      feeds.map((feed) => FEED_HEARTBEATS[feed])
+    ),
+  }
+  return { priceRange, ...preset, collateralOpts }
 }
 
 export const networkConfig: { [key: string]: NetworkConfig } = {
@@ -29,14 +261,14 @@ export const networkConfig: { [key: string]: NetworkConfig } = {
     convexPoolId: 9, // This is the Pool ID for TRI-POOL in Convex
     collateralOpts: {
       lpToken: '0x6c3F90f043a72FA612cbac8115EE7e52BDe6E490', // The Pool token for the Curve Pool
-      nTokens: 3, // The number of tokens in the Curve Pool. This is the underlying for Lending pools and the base for Metapools.
+      nTokens: 3, // The number of tokens in the Curve Pool. This is the underlying for Lending pools and the paired coin plus the base coins for Metapools.
       curvePool: '0xbebc44782c7db0a1a60cb6fe97d0b483032ff1c7', // The address of the Curve Pool
       tokensPriceFeeds: [
         ['0xAed0c38402a5d19df6E4c03F4E2DceD6e29c1ee9'],
         ['0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6'],
         ['0x3E7d1eAB13ad0104d2750B8863b489D65364e32D'],
       ], // These are the price feeds for each of the pool's tokens
-      targetPegFeed: ethers.constants.AddressZero, // This is the address of the price feed for the target unit. If target unit is fiat, use zero address
+      targetPegFeed: ethers.constants.AddressZero, // The USD price feed of the target unit, like ETH / USD for an ETH target. Use the zero address for a USD target.
       poolType: 0, // This is the Curve Pool Type which is either Plain (0), Lending (1), or Metapool (2)
       poolRatioThreshold: 3n * 10n ** 17n, // 30%
       targetName: ethers.utils.formatBytes32String('USD'), // Name of target unit in bytes format
@@ -44,7 +276,23 @@ export const networkConfig: { [key: string]: NetworkConfig } = {
       fallbackPrice: 1n * 10n ** 18n, // Price given when price computation reverts
       maxTradeVolume: 1000000n, // The max trade volume, in UoA
       defaultThreshold: 5n * 10n ** 16n, // A value like 0.05 that represents a deviation tolerance
+      pegHalfLife: 0n, // Seconds in which the weight of past prices halves, when the peg is checked against a moving average of each token price. Zero to check the current prices.
       delayUntilDefault: 86400n, // The number of seconds deviation must occur before default
+      shutdownStatus: 1, // The status while the Convex pool, the wrapper or the Curve pool is shut down: IFFY (1) or DISABLED (2)
+      revenueHiding: 10n ** 12n, // Share of the virtual price hidden from refPerTok(), which the virtual price can lose to rounding before a hard default. 1e-6 here.
+      wrappedRates: [], // For Lending pools, how each wrapped coin converts to its underlying coin: 1:1 (0), Compound (1) or Yearn (2). Leave empty if all convert 1:1.
+      pricingMode: 0, // How the LP token is priced: spot pool balances (0), or get_virtual_price() times the lowest (1) or mean (2) token price
+      imbalanceMode: 0, // How the pool imbalance is measured: the spread of the pool balances over their total (0), or the largest deviation of a balance's share of the pool value from its target weight (1)
+      targetWeights: [], // Only for imbalanceMode 1, the target share of the pool value of each balance, summing to 1. Leave empty for equal weights.
+      reentrancyLockPoke: '0x00000000', // Selector of a nonreentrant pool function that is a no-op with zero arguments, checked before reading the pool. Pools holding native ETH need one, like remove_liquidity(uint256,uint256[2]).
+      feedTimeouts: [[3600n], [86400n], [86400n]], // Seconds that each feed's answer is considered valid, same shape as tokensPriceFeeds. Set these to the feeds' heartbeats, or leave empty to use oracleTimeout for every feed.
+      feedOperations: [], // How each feed applies to its token's price, same shape as tokensPriceFeeds: Multiply (0) for feeds quoting the token or the previous feed's quote, or Divide (1) for inverse feeds like USD / XYZ. Leave empty to multiply every feed.
+      defaultThresholds: [], // The deviation tolerance of each token, or leave empty to use defaultThreshold for every token
+    },
+    priceRange: {
+      priceTimeout: 604800n, // Seconds over which lotPrice() decays the last saved price to zero once the feeds fail
+      oracleErrors: [[25n * 10n ** 14n], [25n * 10n ** 14n], [25n * 10n ** 14n]], // How far each feed's answer can be from the market price, same shape as tokensPriceFeeds
     },
+    // sequencer: { uptimeFeed: '0x...', gracePeriod: 3600n }, // Set on L2s to Chainlink's sequencer uptime feed of the network, prices revert while the sequencer is down and for gracePeriod seconds after it restarts
   },
 }
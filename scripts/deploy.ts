@@ -1,71 +1,125 @@
 import { ethers, network } from 'hardhat'
 import {
-  OracleLib,
-  OracleLib__factory,
   CvxCurveStableLPCollateral,
   CvxCurveStableLPCollateral__factory,
+  CvxCurveStableLPRangeCollateral__factory,
   ConvexStakingWrapper,
   ConvexStakingWrapper__factory,
 } from '../typechain-types'
-import { networkConfig } from './configuration'
+import { NetworkConfig, networkConfig, getPoolPreset } from './configuration'
+import { manifestPath, resumableDeployment } from './deployments'
 
-async function main() {
+// Deploys the collateral configured for the current network or, when `poolName` is given, the
+// collateral for that pool preset. Steps specific to a preset are recorded under its name. With
+// `priceRange`, deploys CvxCurveStableLPRangeCollateral for newer Reserve Protocol releases.
+export async function deployCollateral(poolName?: string, priceRange = false) {
   const [deployer] = await ethers.getSigners()
 
   console.log(`Starting full deployment on network ${network.name}`)
-  console.log(`Deployer account: ${deployer.address}\n`)
+  console.log(`Deployer account: ${deployer.address}`)
+  console.log(`Recording deployment in ${manifestPath(network.name)}\n`)
 
-  const config = networkConfig[network.name]
-
-  if (config.oracleLib === undefined) {
-    const OracleLibFactory: OracleLib__factory = await ethers.getContractFactory('OracleLib')
-    const oracleLib = <OracleLib>await OracleLibFactory.deploy()
-    await oracleLib.deployed()
-    config.oracleLib = oracleLib.address
-    console.log(`Wrapped oracleLib deployed to ${oracleLib.address}`)
+  let config: NetworkConfig = networkConfig[network.name]
+  if (poolName !== undefined) {
+    console.log(`Using pool preset ${poolName}\n`)
+    config = {
+      sequencer: config?.sequencer,
+      ...getPoolPreset(poolName),
+    }
+  } else if (config === undefined) {
+    throw new Error(`No configuration for network ${network.name}, pass a pool preset instead`)
   }
+  const poolStep = (name: string) => (poolName === undefined ? name : `${poolName}/${name}`)
+
+  const { deploy, send } = await resumableDeployment()
 
-  if (config.convexStakingWrapper == undefined) {
-    const CvxMiningFactory = await ethers.getContractFactory('CvxMining')
-    const cvxMining = await CvxMiningFactory.deploy()
+  let convexStakingWrapper = config.convexStakingWrapper
+  if (convexStakingWrapper === undefined) {
+    const cvxMining = await deploy('CvxMining', [], async () => {
+      const CvxMiningFactory = await ethers.getContractFactory('CvxMining')
+      return CvxMiningFactory.deploy()
+    })
 
-    const ConvexStakingWrapperFactory = <ConvexStakingWrapper__factory>(
-      await ethers.getContractFactory('ConvexStakingWrapper', {
-        libraries: {
-          CvxMining: cvxMining.address,
-        },
-      })
+    const wrapper = await deploy(
+      poolStep('ConvexStakingWrapper'),
+      [],
+      async () => {
+        const ConvexStakingWrapperFactory = <ConvexStakingWrapper__factory>(
+          await ethers.getContractFactory('ConvexStakingWrapper', {
+            libraries: {
+              CvxMining: cvxMining,
+            },
+          })
+        )
+        return ConvexStakingWrapperFactory.deploy()
+      },
+      ['CvxMining']
     )
-    const convexStakingWrapper = <ConvexStakingWrapper>await ConvexStakingWrapperFactory.deploy()
-    await convexStakingWrapper.initialize(config.convexPoolId)
-    config.convexStakingWrapper = convexStakingWrapper.address
-  }
 
-  const CvxCurveStableLPCollateralFactory: CvxCurveStableLPCollateral__factory =
-    await ethers.getContractFactory('CvxCurveStableLPCollateral', {
-      libraries: { OracleLib: config.oracleLib },
-    })
+    await send(
+      poolStep('ConvexStakingWrapper.initialize'),
+      [config.convexPoolId],
+      async () => {
+        const wrapperContract = <ConvexStakingWrapper>(
+          await ethers.getContractAt('ConvexStakingWrapper', wrapper)
+        )
+        return wrapperContract.initialize(config.convexPoolId)
+      },
+      [poolStep('ConvexStakingWrapper')]
+    )
+    convexStakingWrapper = wrapper
+  }
 
   const deployConfig: CvxCurveStableLPCollateral.ConfigurationStruct = {
     ...config.collateralOpts,
-    wrappedStakeToken: config.convexStakingWrapper,
+    wrappedStakeToken: convexStakingWrapper,
+    sequencerUptimeFeed: config.sequencer?.uptimeFeed ?? ethers.constants.AddressZero,
+    sequencerGracePeriod: config.sequencer?.gracePeriod ?? 0n,
   }
 
-  const collateral = <CvxCurveStableLPCollateral>(
-    await CvxCurveStableLPCollateralFactory.deploy(deployConfig)
-  )
-
-  console.log(
-    `Deploying CvxCurveStableLPCollateral with transaction ${collateral.deployTransaction.hash}`
-  )
-  await collateral.deployed()
+  // The collateral wraps the staking wrapper deployed above, if any
+  const collateralDependsOn =
+    config.convexStakingWrapper === undefined ? [poolStep('ConvexStakingWrapper')] : []
+  let collateral: string
+  let contractName: string
+  if (priceRange) {
+    const rangeConfig = config.priceRange
+    if (rangeConfig === undefined) {
+      throw new Error(`No priceRange in the configuration of ${poolName ?? network.name}`)
+    }
+    contractName = 'CvxCurveStableLPRangeCollateral'
+    collateral = await deploy(
+      poolStep(contractName),
+      [deployConfig, rangeConfig],
+      async () => {
+        const CvxCurveStableLPRangeCollateralFactory: CvxCurveStableLPRangeCollateral__factory =
+          await ethers.getContractFactory('CvxCurveStableLPRangeCollateral')
+        return CvxCurveStableLPRangeCollateralFactory.deploy(deployConfig, rangeConfig)
+      },
+      collateralDependsOn
+    )
+  } else {
+    contractName = 'CvxCurveStableLPCollateral'
+    collateral = await deploy(
+      poolStep(contractName),
+      [deployConfig],
+      async () => {
+        const CvxCurveStableLPCollateralFactory: CvxCurveStableLPCollateral__factory =
+          await ethers.getContractFactory('CvxCurveStableLPCollateral')
+        return CvxCurveStableLPCollateralFactory.deploy(deployConfig)
+      },
+      collateralDependsOn
+    )
+  }
 
-  console.log(
-    `CvxCurveStableLPCollateral deployed to ${collateral.address} as collateral to ${config.convexStakingWrapper}`
-  )
+  console.log(`${contractName} deployed to ${collateral} as collateral to ${convexStakingWrapper}`)
 }
 
-main().catch((error) => {
-  console.error(error)
-  process.exitCode = 1
-})
+// `npx hardhat run scripts/deploy.ts` deploys the collateral configured for the network. Use the
+// `deploy-collateral` task to deploy a pool preset instead.
+if (require.main === module) {
+  deployCollateral().catch((error) => {
+    console.error(error)
+    process.exitCode = 1
+  })
+}
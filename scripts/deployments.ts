@@ -0,0 +1,117 @@
+import fs from 'fs'
+import path from 'path'
+import { ethers, network } from 'hardhat'
+import { Contract, ContractTransaction } from 'ethers'
+
+export interface DeploymentStep {
+  address?: string // Only set for steps that deploy a contract
+  txHash: string
+  args: unknown[]
+  blockNumber: number
+}
+
+export interface DeploymentManifest {
+  network: string
+  chainId: number
+  steps: { [name: string]: DeploymentStep }
+}
+
+export const manifestPath = (networkName: string) =>
+  path.join(__dirname, '..', 'deployments', `${networkName}.json`)
+
+export const loadManifest = (networkName: string, chainId: number): DeploymentManifest => {
+  const file = manifestPath(networkName)
+  if (!fs.existsSync(file)) {
+    return { network: networkName, chainId, steps: {} }
+  }
+
+  const manifest = <DeploymentManifest>JSON.parse(fs.readFileSync(file, 'utf8'))
+  if (manifest.chainId !== chainId) {
+    throw new Error(`Manifest ${file} is for chain ${manifest.chainId}, connected to ${chainId}`)
+  }
+  return manifest
+}
+
+// bigint is not serializable by default
+const toJson = (value: unknown, space?: number) =>
+  JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? v.toString() : v), space)
+
+export const saveManifest = (manifest: DeploymentManifest) => {
+  const file = manifestPath(manifest.network)
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  fs.writeFileSync(file, `${toJson(manifest, 2)}\n`)
+}
+
+/* resumableDeployment():
+
+   Loads the manifest for the current network and returns `deploy` and `send` helpers that record
+   every step in it. Each step already in the manifest with the same args is skipped on its own, so
+   removing one entry or changing its args only runs that step again. A step also runs again when
+   one of the steps in its `dependsOn` ran in this deployment, since it would otherwise keep
+   pointing at the old contract. A recorded contract without code on chain (e.g. after restarting a
+   local node) counts as missing.
+*/
+export const resumableDeployment = async () => {
+  const { chainId } = await ethers.provider.getNetwork()
+  const manifest = loadManifest(network.name, chainId)
+  const ran = new Set<string>()
+
+  const isDone = async (name: string, args: unknown[], dependsOn: string[]): Promise<boolean> => {
+    const step = manifest.steps[name]
+    if (step === undefined || toJson(step.args) !== toJson(args)) return false
+    if (dependsOn.some((dependency) => ran.has(dependency))) return false
+    if (step.address !== undefined && (await ethers.provider.getCode(step.address)) === '0x') {
+      return false
+    }
+    return true
+  }
+
+  const record = async (
+    name: string,
+    args: unknown[],
+    tx: ContractTransaction,
+    address?: string
+  ) => {
+    const receipt = await tx.wait()
+    manifest.steps[name] = { address, txHash: tx.hash, args, blockNumber: receipt.blockNumber }
+    saveManifest(manifest)
+    ran.add(name)
+  }
+
+  const deploy = async (
+    name: string,
+    args: unknown[],
+    deployContract: () => Promise<Contract>,
+    dependsOn: string[] = []
+  ): Promise<string> => {
+    if (await isDone(name, args, dependsOn)) {
+      const address = manifest.steps[name].address!
+      console.log(`Skipping ${name}, already deployed to ${address}`)
+      return address
+    }
+
+    const contract = await deployContract()
+    console.log(`Deploying ${name} with transaction ${contract.deployTransaction.hash}`)
+    await record(name, args, contract.deployTransaction, contract.address)
+    console.log(`${name} deployed to ${contract.address}`)
+    return contract.address
+  }
+
+  const send = async (
+    name: string,
+    args: unknown[],
+    sendTransaction: () => Promise<ContractTransaction>,
+    dependsOn: string[] = []
+  ): Promise<void> => {
+    if (await isDone(name, args, dependsOn)) {
+      console.log(`Skipping ${name}, already sent in ${manifest.steps[name].txHash}`)
+      return
+    }
+
+    const tx = await sendTransaction()
+    console.log(`Sending ${name} with transaction ${tx.hash}`)
+    await record(name, args, tx)
+  }
+
+  return { manifest, deploy, send }
+}
@@ -0,0 +1,134 @@
+import { ethers } from 'hardhat'
+import { CvxCurveStableLPCollateral } from '../typechain-types'
+
+const NEVER = ethers.constants.MaxUint256.toBigInt()
+const STATUS_NAMES = ['SOUND', 'IFFY', 'DISABLED']
+
+export interface TokenHealthReport {
+  index: number
+  price?: bigint // {UoA/tok}, undefined if the feed reverted
+  smoothedPrice?: bigint // {UoA/tok} The price checked against the peg, see pegHalfLife
+  deviation?: bigint // D18{1} |smoothedPrice - peg| / peg, undefined without a price or peg
+  feedReverted: boolean
+  pegNotMaintained: boolean
+}
+
+export interface HealthReport {
+  status: string
+  peg?: bigint // {UoA/ref}, undefined if the peg feed reverted
+  tokens: TokenHealthReport[]
+  poolRatio?: bigint // D18{1}, undefined if it reverted
+  poolRatioThreshold: bigint // D18{1}
+  unbalanced: boolean
+  shutDown?: boolean // Of the Convex pool, the wrapper or the Curve pool, undefined if it reverted
+  refPerTok: bigint
+  actualRefPerTok: bigint // The virtual price, without the revenueHiding discount
+  prevReferencePrice: bigint
+  referencePriceDecreased: boolean
+  whenDefault?: number // undefined while no default is scheduled
+  projectedWhenDefault?: number // undefined if a refresh() would not schedule a default
+}
+
+const timestampOrNever = (value: bigint) => (value === NEVER ? undefined : Number(value))
+
+// Turns the struct returned by healthReport() into plain values
+export const decodeHealthReport = (
+  raw: CvxCurveStableLPCollateral.HealthReportStructOutput,
+  poolRatioThreshold: bigint
+): HealthReport => {
+  const pegFeedReverted = raw.pegFeedReverted
+  return {
+    status: STATUS_NAMES[raw.status],
+    peg: pegFeedReverted ? undefined : raw.peg.toBigInt(),
+    tokens: raw.tokens.map((token, index) => ({
+      index,
+      price: token.feedReverted ? undefined : token.price.toBigInt(),
+      smoothedPrice: token.feedReverted ? undefined : token.smoothedPrice.toBigInt(),
+      deviation: token.feedReverted || pegFeedReverted ? undefined : token.deviation.toBigInt(),
+      feedReverted: token.feedReverted,
+      pegNotMaintained: token.pegNotMaintained,
+    })),
+    poolRatio: raw.poolRatioReverted ? undefined : raw.poolRatio.toBigInt(),
+    poolRatioThreshold,
+    unbalanced: raw.unbalanced,
+    shutDown: raw.shutDownReverted ? undefined : raw.shutDown,
+    refPerTok: raw.refPerTok.toBigInt(),
+    actualRefPerTok: raw.actualRefPerTok.toBigInt(),
+    prevReferencePrice: raw.prevReferencePrice.toBigInt(),
+    referencePriceDecreased: raw.actualRefPerTok.lt(raw.prevReferencePrice),
+    whenDefault: timestampOrNever(raw.whenDefault.toBigInt()),
+    projectedWhenDefault: timestampOrNever(raw.projectedWhenDefault.toBigInt()),
+  }
+}
+
+export const readHealthReport = async (
+  collateral: CvxCurveStableLPCollateral
+): Promise<HealthReport> =>
+  decodeHealthReport(
+    await collateral.healthReport(),
+    (await collateral.poolRatioThreshold()).toBigInt()
+  )
+
+const fmt = (value: bigint) => ethers.utils.formatUnits(value, 18)
+
+// Lists the conditions that make refresh() leave SOUND, empty if there are none
+export const explainHealthReport = (report: HealthReport): string[] => {
+  const reasons: string[] = []
+  if (report.referencePriceDecreased) {
+    reasons.push(
+      `actualRefPerTok ${fmt(report.actualRefPerTok)} is below prevReferencePrice ${fmt(
+        report.prevReferencePrice
+      )}`
+    )
+  }
+  if (report.shutDown) reasons.push('the Convex pool, the wrapper or the Curve pool is shut down')
+  if (report.shutDown === undefined) reasons.push('pool shutdown check reverted')
+  if (report.peg === undefined) reasons.push('peg feed reverted')
+  for (const token of report.tokens) {
+    if (token.feedReverted) {
+      reasons.push(`token ${token.index} price feed reverted`)
+    } else if (token.pegNotMaintained) {
+      reasons.push(
+        `token ${token.index} price ${fmt(token.smoothedPrice ?? 0n)} is ${fmt(
+          (token.deviation ?? 0n) * 100n
+        )}% off the peg`
+      )
+    }
+  }
+  if (report.poolRatio === undefined) {
+    reasons.push('pool ratio reverted')
+  } else if (report.unbalanced) {
+    reasons.push(
+      `pool ratio ${fmt(report.poolRatio * 100n)}% is beyond the ${fmt(
+        report.poolRatioThreshold * 100n
+      )}% threshold`
+    )
+  }
+  return reasons
+}
+
+export const printHealthReport = (report: HealthReport) => {
+  const when = (timestamp?: number) =>
+    timestamp === undefined ? 'never' : new Date(timestamp * 1000).toISOString()
+
+  console.log(`status ${report.status}, default at ${when(report.whenDefault)}`)
+  console.log(`after refresh, default at ${when(report.projectedWhenDefault)}`)
+  console.log(
+    `refPerTok ${fmt(report.refPerTok)}, actualRefPerTok ${fmt(
+      report.actualRefPerTok
+    )}, prevReferencePrice ${fmt(report.prevReferencePrice)}`
+  )
+  console.log(`peg ${report.peg === undefined ? 'reverted' : fmt(report.peg)}`)
+  for (const token of report.tokens) {
+    console.log(
+      `token ${token.index}: price ${token.price === undefined ? 'reverted' : fmt(token.price)}` +
+        (token.deviation === undefined ? '' : `, deviation ${fmt(token.deviation * 100n)}%`)
+    )
+  }
+  const poolRatio = report.poolRatio === undefined ? 'reverted' : `${fmt(report.poolRatio * 100n)}%`
+  console.log(`pool ratio ${poolRatio} of ${fmt(report.poolRatioThreshold * 100n)}%`)
+
+  const reasons = explainHealthReport(report)
+  console.log(reasons.length === 0 ? '\nNo default conditions' : '\nDefault conditions:')
+  for (const reason of reasons) console.log(`- ${reason}`)
+}
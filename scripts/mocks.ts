@@ -0,0 +1,149 @@
+import { ethers } from 'hardhat'
+import {
+  ConvexBoosterMock,
+  ConvexStakingWrapperMock,
+  CurvePoolMock,
+  CurvePoolMock__factory,
+  CvxCurveStableLPCollateral,
+  CvxCurveStableLPCollateral__factory,
+  MockV3Aggregator,
+  MockV3Aggregator__factory,
+  RewardPoolMock,
+  RewardPoolMock__factory,
+  TokenMock,
+  TokenMock__factory,
+} from '../typechain-types'
+import { CollateralOptsConfig } from './configuration'
+
+// Decimals of the mock feeds, like Chainlink's USD feeds
+export const MOCK_FEED_DECIMALS = 8
+
+export interface MockCoin {
+  symbol: string
+  decimals: number
+  name?: string // Defaults to the symbol
+}
+
+export interface MockPool {
+  coins: TokenMock[]
+  feeds: MockV3Aggregator[] // One USD feed for each coin
+  lpToken: TokenMock
+  curvePool: CurvePoolMock
+  crv: TokenMock
+  cvx: TokenMock
+  convexToken: TokenMock
+  booster: ConvexBoosterMock
+  rewardPool: RewardPoolMock
+  cvxRewardPool: RewardPoolMock
+  wrapper: ConvexStakingWrapperMock
+}
+
+// Local stand-ins for a Plain Curve pool of `coins`, a feed answering 1 for each coin and the
+// Convex contracts behind the pool. The pool holds `balances` whole coins, 10k of each by
+// default, and its LP token supply is their sum. None of these need a mainnet fork.
+export const deployMockPool = async (
+  coins: MockCoin[],
+  balances: bigint[] = coins.map(() => 10_000n)
+): Promise<MockPool> => {
+  const [owner] = await ethers.getSigners()
+  const TokenMockFactory = <TokenMock__factory>await ethers.getContractFactory('TokenMock')
+  const MockV3AggregatorFactory = <MockV3Aggregator__factory>(
+    await ethers.getContractFactory('MockV3Aggregator')
+  )
+
+  const tokens: TokenMock[] = []
+  const feeds: MockV3Aggregator[] = []
+  for (const coin of coins) {
+    tokens.push(await TokenMockFactory.deploy(coin.name ?? coin.symbol, coin.symbol, coin.decimals))
+    feeds.push(
+      await MockV3AggregatorFactory.deploy(
+        MOCK_FEED_DECIMALS,
+        ethers.utils.parseUnits('1', MOCK_FEED_DECIMALS)
+      )
+    )
+  }
+
+  const CurvePoolMockFactory = <CurvePoolMock__factory>(
+    await ethers.getContractFactory('CurvePoolMock')
+  )
+  const curvePool = await CurvePoolMockFactory.deploy(
+    balances.map((balance, i) => ethers.utils.parseUnits(String(balance), coins[i].decimals)),
+    tokens.map((token) => token.address)
+  )
+  const symbols = coins.map((coin) => coin.symbol)
+  const lpToken = await TokenMockFactory.deploy(
+    `Curve.fi ${symbols.join('/')}`,
+    `${symbols.join('')}CRV`,
+    18
+  )
+  const supply = balances.reduce((sum, balance) => sum + balance, 0n)
+  await lpToken.mint(owner.address, ethers.utils.parseUnits(String(supply), 18))
+  await curvePool.setToken(lpToken.address)
+
+  const crv = await TokenMockFactory.deploy('Curve DAO Token', 'CRV', 18)
+  const cvx = await TokenMockFactory.deploy('Convex Token', 'CVX', 18)
+  const convexToken = await TokenMockFactory.deploy(
+    `Curve.fi ${symbols.join('/')} Convex Deposit`,
+    `cvx${symbols.join('')}CRV`,
+    18
+  )
+
+  const RewardPoolMockFactory = <RewardPoolMock__factory>(
+    await ethers.getContractFactory('RewardPoolMock')
+  )
+  const rewardPool = await RewardPoolMockFactory.deploy(crv.address)
+  const cvxRewardPool = await RewardPoolMockFactory.deploy(cvx.address)
+  await rewardPool.addExtraReward(cvxRewardPool.address)
+
+  const booster = <ConvexBoosterMock>(
+    await (await ethers.getContractFactory('ConvexBoosterMock')).deploy()
+  )
+  await booster.addPool(
+    lpToken.address,
+    convexToken.address,
+    ethers.constants.AddressZero,
+    rewardPool.address,
+    ethers.constants.AddressZero
+  )
+
+  const wrapper = <ConvexStakingWrapperMock>(
+    await (
+      await ethers.getContractFactory('ConvexStakingWrapperMock')
+    ).deploy(booster.address, crv.address, cvx.address)
+  )
+  await wrapper.initialize(0)
+
+  return {
+    coins: tokens,
+    feeds,
+    lpToken,
+    curvePool,
+    crv,
+    cvx,
+    convexToken,
+    booster,
+    rewardPool,
+    cvxRewardPool,
+    wrapper,
+  }
+}
+
+// Deploys a CvxCurveStableLPCollateral with `opts` on `pool`, each coin priced by its own feed
+export const deployMockPoolCollateral = async (
+  pool: MockPool,
+  opts: CollateralOptsConfig
+): Promise<CvxCurveStableLPCollateral> => {
+  const CvxCurveStableLPCollateralFactory = <CvxCurveStableLPCollateral__factory>(
+    await ethers.getContractFactory('CvxCurveStableLPCollateral')
+  )
+  return CvxCurveStableLPCollateralFactory.deploy({
+    ...opts,
+    lpToken: pool.lpToken.address,
+    curvePool: pool.curvePool.address,
+    nTokens: pool.coins.length,
+    tokensPriceFeeds: pool.feeds.map((feed) => [feed.address]),
+    wrappedStakeToken: pool.wrapper.address,
+    sequencerUptimeFeed: ethers.constants.AddressZero,
+    sequencerGracePeriod: 0n,
+  })
+}
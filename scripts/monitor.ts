@@ -0,0 +1,208 @@
+import { ethers } from 'hardhat'
+import { CvxCurveStableLPCollateral } from '../typechain-types'
+import { readHealthReport } from './healthReport'
+
+const FIX_ONE = 10n ** 18n
+const NEVER = ethers.constants.MaxUint256.toBigInt()
+const STATUS_NAMES = ['SOUND', 'IFFY', 'DISABLED']
+
+export enum HealthLevel {
+  OK = 'OK',
+  WARN = 'WARN', // Value is past the warning share of its threshold
+  ALERT = 'ALERT', // Threshold is crossed, a feed reverts, a pool is shut down or the collateral is not SOUND
+}
+
+export interface TokenHealth {
+  index: number
+  price?: bigint // {UoA/tok}, undefined if the feed reverts
+  smoothedPrice?: bigint // {UoA/tok} The price refresh() checks against the peg, see pegHalfLife
+  deviation?: bigint // D18{1} |smoothedPrice - peg| / peg
+  thresholdUsage?: bigint // D18{1} deviation / the token's defaultThreshold
+  level: HealthLevel
+}
+
+export interface CollateralHealth {
+  collateral: string
+  timestamp: number
+  status: string
+  whenDefault?: number // undefined while the collateral has no default scheduled
+  refPerTok: bigint
+  price: bigint
+  isFallbackPrice: boolean
+  shutDown?: boolean // Of the Convex pool, the wrapper or the Curve pool, undefined if it reverts
+  peg?: bigint
+  balances?: bigint[] // {tok} getBalances() of the pool, undefined if it reverts
+  tokens: TokenHealth[]
+  poolRatio?: bigint // D18{1} poolRatio() of the collateral, undefined if a feed reverts
+  poolRatioThreshold: bigint
+  poolRatioUsage?: bigint // D18{1} poolRatio / poolRatioThreshold
+  poolLevel: HealthLevel
+  level: HealthLevel
+}
+
+const levelFor = (usage: bigint, warnAt: bigint): HealthLevel => {
+  if (usage > FIX_ONE) return HealthLevel.ALERT
+  if (usage >= warnAt) return HealthLevel.WARN
+  return HealthLevel.OK
+}
+
+const worst = (levels: HealthLevel[]): HealthLevel => {
+  if (levels.includes(HealthLevel.ALERT)) return HealthLevel.ALERT
+  if (levels.includes(HealthLevel.WARN)) return HealthLevel.WARN
+  return HealthLevel.OK
+}
+
+const tryCall = async <T>(f: () => Promise<T>): Promise<T | undefined> => {
+  try {
+    return await f()
+  } catch {
+    return undefined
+  }
+}
+
+// Reads a collateral and computes how close it is to going IFFY. `warnAt` is the share of a
+// threshold (D18, e.g. 0.8e18) from which a value is reported as WARN.
+export const readHealth = async (
+  collateral: CvxCurveStableLPCollateral,
+  warnAt: bigint
+): Promise<CollateralHealth> => {
+  const timestamp = (await ethers.provider.getBlock('latest')).timestamp
+  const status = STATUS_NAMES[await collateral.status()]
+  const whenDefault = (await collateral.whenDefault()).toBigInt()
+  const refPerTok = (await collateral.refPerTok()).toBigInt()
+  const [isFallbackPrice, price] = await collateral.price(true)
+  const poolRatioThreshold = (await collateral.poolRatioThreshold()).toBigInt()
+  const shutDown = await tryCall(() => collateral.poolShutDown())
+  const peg = (await tryCall(() => collateral.getPeg()))?.toBigInt()
+  const report = await tryCall(() => readHealthReport(collateral))
+  const balances = (await tryCall(() => collateral.getBalances()))?.map((b) => b.toBigInt())
+  const poolRatio = (await tryCall(() => collateral.poolRatio()))?.toBigInt()
+  const nTokens = await collateral.nTokens()
+
+  const tokens: TokenHealth[] = []
+  for (let i = 0; i < nTokens; i++) {
+    const tokenPrice = report?.tokens[i].price
+    const smoothedPrice = report?.tokens[i].smoothedPrice
+    if (smoothedPrice === undefined || peg === undefined) {
+      tokens.push({ index: i, price: tokenPrice, level: HealthLevel.ALERT })
+      continue
+    }
+
+    const delta = smoothedPrice > peg ? smoothedPrice - peg : peg - smoothedPrice
+    const deviation = (delta * FIX_ONE) / peg
+    const defaultThreshold = (await collateral.getTokenDefaultThreshold(i)).toBigInt()
+    const thresholdUsage = (deviation * FIX_ONE) / defaultThreshold
+    tokens.push({
+      index: i,
+      price: tokenPrice,
+      smoothedPrice,
+      deviation,
+      thresholdUsage,
+      level: levelFor(thresholdUsage, warnAt),
+    })
+  }
+
+  const poolRatioUsage =
+    poolRatio === undefined ? undefined : (poolRatio * FIX_ONE) / poolRatioThreshold
+  const poolLevel =
+    poolRatioUsage === undefined ? HealthLevel.ALERT : levelFor(poolRatioUsage, warnAt)
+
+  const statusLevel =
+    status === 'SOUND' && !isFallbackPrice && shutDown === false
+      ? HealthLevel.OK
+      : HealthLevel.ALERT
+
+  return {
+    collateral: collateral.address,
+    timestamp,
+    status,
+    whenDefault: whenDefault === NEVER ? undefined : Number(whenDefault),
+    refPerTok,
+    price: price.toBigInt(),
+    isFallbackPrice,
+    shutDown,
+    peg,
+    balances,
+    tokens,
+    poolRatio,
+    poolRatioThreshold,
+    poolRatioUsage,
+    poolLevel,
+    level: worst([statusLevel, poolLevel, ...tokens.map((t) => t.level)]),
+  }
+}
+
+const fmt = (value: bigint | undefined, decimals = 6) =>
+  value === undefined ? 'reverted' : Number(ethers.utils.formatUnits(value, 18)).toFixed(decimals)
+
+const pct = (value: bigint | undefined) =>
+  value === undefined ? '-' : `${Number(ethers.utils.formatUnits(value * 100n, 18)).toFixed(2)}%`
+
+export const formatTable = (health: CollateralHealth): string => {
+  const when =
+    health.whenDefault === undefined ? 'never' : new Date(health.whenDefault * 1000).toISOString()
+  const shutDown =
+    health.shutDown === undefined ? ', shutdown check reverted' : health.shutDown ? ', pool shut down' : ''
+  const lines = [
+    `${new Date(health.timestamp * 1000).toISOString()} ${health.collateral} [${health.level}]`,
+    `  status ${health.status}, default at ${when}${shutDown}`,
+    `  refPerTok ${fmt(health.refPerTok)}, price ${fmt(health.price)}${
+      health.isFallbackPrice ? ' (fallback)' : ''
+    }, peg ${fmt(health.peg)}`,
+    `  balances ${health.balances?.map((b) => fmt(b, 2)).join(', ') ?? 'reverted'}`,
+    `  ${'token'.padEnd(6)}${'price'.padStart(14)}${'smoothed'.padStart(14)}${'deviation'.padStart(
+      12
+    )}${'of threshold'.padStart(14)}  level`,
+  ]
+  for (const token of health.tokens) {
+    lines.push(
+      `  ${String(token.index).padEnd(6)}${fmt(token.price).padStart(14)}${fmt(
+        token.smoothedPrice
+      ).padStart(14)}${pct(token.deviation).padStart(12)}${pct(token.thresholdUsage).padStart(
+        14
+      )}  ${token.level}`
+    )
+  }
+  lines.push(
+    `  pool ratio ${pct(health.poolRatio)} of ${pct(health.poolRatioThreshold)} threshold (${pct(
+      health.poolRatioUsage
+    )}) ${health.poolLevel}`
+  )
+  return lines.join('\n')
+}
+
+// bigint is not serializable by default
+export const formatJson = (health: CollateralHealth): string =>
+  JSON.stringify(health, (_, value) => (typeof value === 'bigint' ? value.toString() : value))
+
+export interface MonitorOptions {
+  collaterals: string[]
+  interval: number // {s} between readings
+  json: boolean // Print JSON lines instead of a table
+  warnAt: bigint // D18{1} share of a threshold from which values are reported as WARN
+  once: boolean
+}
+
+export async function monitor(options: MonitorOptions) {
+  const collaterals = await Promise.all(
+    options.collaterals.map(
+      async (address) =>
+        <CvxCurveStableLPCollateral>(
+          await ethers.getContractAt('CvxCurveStableLPCollateral', address)
+        )
+    )
+  )
+
+  for (;;) {
+    for (const collateral of collaterals) {
+      try {
+        const health = await readHealth(collateral, options.warnAt)
+        console.log(options.json ? formatJson(health) : formatTable(health))
+      } catch (e) {
+        console.error(`Could not read ${collateral.address}: ${e}`)
+      }
+    }
+    if (options.once) return
+    await new Promise((resolve) => setTimeout(resolve, options.interval * 1000))
+  }
+}
@@ -0,0 +1,336 @@
+// Off-chain model of how CvxCurveStableLPCollateral prices its LP token and sets its status,
+// computed from plain inputs instead of chain reads. It follows the contract's uint192 fixed-point
+// arithmetic and rounding, so its results match the contract's to the wei.
+
+export const FIX_ONE = 10n ** 18n
+export const FIX_MAX = 2n ** 192n - 1n
+export const NEVER = 2n ** 256n - 1n
+
+// A read the contract would revert on, like a failing feed or an overflow
+export class ModelRevert extends Error {}
+
+// Mirrors the enums of PoolTokens and CvxCurveStableLPCollateral
+export enum FeedOperation {
+  Multiply,
+  Divide,
+}
+
+export enum PricingMode {
+  Balances,
+  VirtualPriceMin,
+  VirtualPriceMean,
+}
+
+export enum ImbalanceMode {
+  Spread,
+  ValueWeighted,
+}
+
+export enum CollateralStatus {
+  SOUND,
+  IFFY,
+  DISABLED,
+}
+
+// === Fixed-point arithmetic of Reserve's FixLib ===
+
+export const safeWrap = (x: bigint): bigint => {
+  if (x < 0n || x > FIX_MAX) throw new ModelRevert('UIntOutOfBounds')
+  return x
+}
+
+// Rounds to the nearest, like FixLib.mul
+export const mul = (x: bigint, y: bigint): bigint => safeWrap((x * y + FIX_ONE / 2n) / FIX_ONE)
+
+// Rounds to the nearest, like FixLib.div
+export const div = (x: bigint, y: bigint): bigint => {
+  if (y === 0n) throw new ModelRevert('division by zero')
+  return safeWrap((x * FIX_ONE + y / 2n) / y)
+}
+
+// Rounds down, like shiftl_toFix without a rounding mode
+export const shiftlToFix = (x: bigint, shiftLeft: number): bigint => {
+  const shift = shiftLeft + 18
+  return safeWrap(shift < 0 ? x / 10n ** BigInt(-shift) : x * 10n ** BigInt(shift))
+}
+
+const min = (values: bigint[]) => values.reduce((a, b) => (b < a ? b : a))
+const max = (values: bigint[]) => values.reduce((a, b) => (b > a ? b : a))
+
+// === Inputs ===
+
+export interface FeedState {
+  answer: bigint // In the feed's decimals
+  decimals: number
+  operation?: FeedOperation // Multiply by default
+  // The read reverts for a reason outside the model: a stale answer, an answer at the
+  // aggregator's bounds, a lagging round or a down L2 sequencer
+  reverts?: boolean
+}
+
+export interface TokenState {
+  balance: bigint // {qTok} curvePool.balances(), in the wrapped coin for Lending pools
+  decimals: number
+  wrappedRate?: bigint // D18{qUnderlying/qWrapped} Only for Lending pools with wrapped coins
+  feeds: FeedState[]
+  defaultThreshold: bigint // D18{1}
+}
+
+export interface PoolState {
+  tokens: TokenState[]
+  virtualPrice: bigint // D18{ref/tok}
+  lpTotalSupply: bigint // {qTok}
+  lpDecimals: number
+  // Only for Metapools, where `tokens` are the paired coin and the base pool coins. The balance
+  // of the paired coin is the one of tokens[0], the base coins' balances are not used.
+  metapool?: {
+    baseLpBalance: bigint // D18{baseLP} curvePool.balances(1)
+    baseVirtualPrice: bigint // D18{ref/baseLP}
+  }
+  targetPegFeed?: FeedState // Unset for targets that are the unit of account
+  shutDown?: boolean // The Convex pool, the wrapper or the Curve pool is shut down
+}
+
+export interface CollateralConfig {
+  pricingMode: PricingMode
+  imbalanceMode: ImbalanceMode
+  targetWeights: bigint[] // D18{1} Empty for equal weights
+  poolRatioThreshold: bigint // D18{1}
+  delayUntilDefault: bigint // {s}
+  revenueHiding: bigint // D18{1}
+  shutdownStatus: CollateralStatus
+  pegHalfLife: bigint // {s}
+}
+
+// The storage refresh() reads and writes
+export interface CollateralState {
+  whenDefault: bigint // {s} NEVER while SOUND
+  prevReferencePrice: bigint // D18{ref/tok}
+  smoothedPrices: bigint[] // D18{UoA/tok} Only with pegHalfLife
+  lastSmoothed: bigint // {s}
+}
+
+// === PoolTokens ===
+
+// OracleLib.price(): the answer as D18, reverting on non-positive answers
+export const feedPrice = (feed: FeedState): bigint => {
+  if (feed.reverts || feed.answer <= 0n) throw new ModelRevert('feed reverted')
+  return shiftlToFix(feed.answer, -feed.decimals)
+}
+
+// {UoA/tok}
+export const tokenPrice = (pool: PoolState, index: number): bigint =>
+  pool.tokens[index].feeds.reduce((price, feed) => {
+    const p = feedPrice(feed)
+    return feed.operation === FeedOperation.Divide ? div(price, p) : mul(p, price)
+  }, FIX_ONE)
+
+// {tok}
+export const tokenBalance = (token: TokenState): bigint => {
+  const balance =
+    token.wrappedRate === undefined ? token.balance : (token.balance * token.wrappedRate) / FIX_ONE
+  return shiftlToFix(balance, -token.decimals)
+}
+
+// {tok} For Metapools, the paired coin and the base pool LP balance in {ref} of the base pool
+export const getBalances = (pool: PoolState): bigint[] => {
+  if (pool.metapool !== undefined) {
+    return [
+      tokenBalance(pool.tokens[0]),
+      mul(safeWrap(pool.metapool.baseLpBalance), safeWrap(pool.metapool.baseVirtualPrice)),
+    ]
+  }
+  return pool.tokens.map(tokenBalance)
+}
+
+// {UoA/ref} The lowest price among the tokens from `first` on
+export const minTokenPrice = (pool: PoolState, first: number): bigint => {
+  let minPrice = FIX_MAX
+  for (let i = first; i < pool.tokens.length; i++) {
+    const p = tokenPrice(pool, i)
+    if (p < minPrice) minPrice = p
+  }
+  return minPrice
+}
+
+// {UoA/ref}
+export const meanTokenPrice = (pool: PoolState): bigint => {
+  let sum = 0n
+  for (let i = 0; i < pool.tokens.length; i++) sum = safeWrap(sum + tokenPrice(pool, i))
+  return sum / BigInt(pool.tokens.length)
+}
+
+// {UoA}
+export const totalBalancesValue = (pool: PoolState): bigint => {
+  if (pool.metapool !== undefined) {
+    const [paired, baseLp] = getBalances(pool)
+    return safeWrap(mul(paired, tokenPrice(pool, 0)) + mul(baseLp, minTokenPrice(pool, 1)))
+  }
+
+  let total = 0n
+  pool.tokens.forEach((token, i) => {
+    total = safeWrap(total + mul(tokenBalance(token), tokenPrice(pool, i)))
+  })
+  return total
+}
+
+// === CvxCurveStableLPCollateral ===
+
+// {UoA/tok}
+export const strictPrice = (pool: PoolState, config: CollateralConfig): bigint => {
+  if (config.pricingMode === PricingMode.VirtualPriceMin) {
+    return mul(safeWrap(pool.virtualPrice), minTokenPrice(pool, 0))
+  } else if (config.pricingMode === PricingMode.VirtualPriceMean) {
+    return mul(safeWrap(pool.virtualPrice), meanTokenPrice(pool))
+  }
+  return div(totalBalancesValue(pool), shiftlToFix(pool.lpTotalSupply, -pool.lpDecimals))
+}
+
+// {1} The target share of the pool value of the balance at `index` of `length`
+export const targetWeight = (config: CollateralConfig, index: number, length: number): bigint =>
+  config.targetWeights.length === 0 ? FIX_ONE / BigInt(length) : config.targetWeights[index]
+
+// {1}
+export const poolRatio = (pool: PoolState, config: CollateralConfig): bigint => {
+  const balances = getBalances(pool)
+  if (config.imbalanceMode === ImbalanceMode.ValueWeighted) {
+    const values = balances.map((balance, i) =>
+      mul(
+        balance,
+        pool.metapool !== undefined && i === 1 ? minTokenPrice(pool, 1) : tokenPrice(pool, i)
+      )
+    )
+    const totalValue = safeWrap(values.reduce((a, b) => a + b, 0n))
+    return max(
+      values.map((value, i) => {
+        const weight = targetWeight(config, i, values.length)
+        const share = div(value, totalValue)
+        return div(share > weight ? share - weight : weight - share, weight)
+      })
+    )
+  }
+
+  const total = safeWrap(balances.reduce((a, b) => a + b, 0n))
+  return div(max(balances) - min(balances), total)
+}
+
+export const unbalancedBeyondTreshold = (pool: PoolState, config: CollateralConfig): boolean =>
+  poolRatio(pool, config) > config.poolRatioThreshold
+
+// {UoA/ref}
+export const getPeg = (pool: PoolState): bigint =>
+  pool.targetPegFeed === undefined ? FIX_ONE : feedPrice(pool.targetPegFeed)
+
+export const outOfPeg = (p: bigint, peg: bigint, threshold: bigint): boolean => {
+  const delta = (peg * threshold) / FIX_ONE
+  return p < peg - delta || p > peg + delta
+}
+
+// D18{1} The weight left to a smoothed price after `elapsed` seconds
+export const decay = (elapsed: bigint, halfLife: bigint): bigint => {
+  const halvings = elapsed / halfLife
+  if (halvings >= 60n) return 0n
+  const weight = FIX_ONE >> halvings
+  return weight - (weight * (elapsed % halfLife)) / (2n * halfLife)
+}
+
+// {UoA/tok} The price checked against the peg at `now`
+export const pegCheckPrice = (
+  config: CollateralConfig,
+  state: CollateralState,
+  index: number,
+  p: bigint,
+  now: bigint
+): bigint => {
+  if (config.pegHalfLife === 0n) return p
+  const kept = decay(now - state.lastSmoothed, config.pegHalfLife)
+  return (state.smoothedPrices[index] * kept + p * (FIX_ONE - kept)) / FIX_ONE
+}
+
+// A failing token feed means the peg is not maintained, while a failing peg feed reverts
+export const pegNotMaintained = (
+  pool: PoolState,
+  config: CollateralConfig,
+  state: CollateralState,
+  now: bigint
+): boolean => {
+  for (let i = 0; i < pool.tokens.length; i++) {
+    let p: bigint
+    try {
+      p = tokenPrice(pool, i)
+    } catch (e) {
+      if (e instanceof ModelRevert) return true
+      throw e
+    }
+    const checked = pegCheckPrice(config, state, i, p, now)
+    if (outOfPeg(checked, getPeg(pool), pool.tokens[i].defaultThreshold)) return true
+  }
+  return false
+}
+
+// {ref/tok}
+export const refPerTok = (state: CollateralState): bigint => state.prevReferencePrice
+
+export const status = (state: CollateralState, now: bigint): CollateralStatus => {
+  if (state.whenDefault === NEVER) return CollateralStatus.SOUND
+  return state.whenDefault > now ? CollateralStatus.IFFY : CollateralStatus.DISABLED
+}
+
+const markStatus = (
+  config: CollateralConfig,
+  state: CollateralState,
+  newStatus: CollateralStatus,
+  now: bigint
+): bigint => {
+  if (state.whenDefault <= now) return state.whenDefault
+  if (newStatus === CollateralStatus.SOUND) return NEVER
+  if (newStatus === CollateralStatus.IFFY) {
+    const whenIffy = now + config.delayUntilDefault
+    return whenIffy < state.whenDefault ? whenIffy : state.whenDefault
+  }
+  return now
+}
+
+// The state after a refresh() at `now`. Throws ModelRevert where refresh() would revert.
+export const refresh = (
+  pool: PoolState,
+  config: CollateralConfig,
+  state: CollateralState,
+  now: bigint
+): CollateralState => {
+  if (state.whenDefault <= now) return state
+  const next = { ...state, smoothedPrices: [...state.smoothedPrices] }
+
+  const referencePrice = safeWrap(pool.virtualPrice)
+  if (referencePrice < state.prevReferencePrice) {
+    next.prevReferencePrice = referencePrice
+    next.whenDefault = markStatus(config, state, CollateralStatus.DISABLED, now)
+    return next
+  }
+
+  const hiddenReferencePrice = mul(referencePrice, FIX_ONE - config.revenueHiding)
+  if (hiddenReferencePrice > state.prevReferencePrice) {
+    next.prevReferencePrice = hiddenReferencePrice
+  }
+
+  if (config.pegHalfLife > 0n) {
+    // A failing feed keeps its token's last smoothed price
+    pool.tokens.forEach((_, i) => {
+      try {
+        next.smoothedPrices[i] = pegCheckPrice(config, state, i, tokenPrice(pool, i), now)
+      } catch (e) {
+        if (!(e instanceof ModelRevert)) throw e
+      }
+    })
+    next.lastSmoothed = now
+  }
+
+  let newStatus = CollateralStatus.SOUND
+  if (pool.shutDown) {
+    newStatus = config.shutdownStatus
+  } else if (pegNotMaintained(pool, config, next, now) || unbalancedBeyondTreshold(pool, config)) {
+    newStatus = CollateralStatus.IFFY
+  }
+  next.whenDefault = markStatus(config, state, newStatus, now)
+  return next
+}
@@ -0,0 +1,108 @@
+import { ethers } from 'hardhat'
+import { time } from '@nomicfoundation/hardhat-network-helpers'
+import { CurvePoolMock, CvxCurveStableLPCollateral, MockV3Aggregator } from '../typechain-types'
+
+const NEVER = ethers.constants.MaxUint256.toBigInt()
+const STATUS_NAMES = ['SOUND', 'IFFY', 'DISABLED']
+
+// What changes at one point of a scenario. Anything left out keeps its previous value.
+export interface ScenarioStep {
+  at: number // {s} since the start of the scenario
+  feeds?: Record<string, bigint> // Answers by feed name, in the feed's decimals
+  balances?: bigint[] // Pool balances, in each coin's decimals
+  virtualPrice?: bigint // D18{ref/tok}
+}
+
+export interface Scenario {
+  name: string
+  steps: ScenarioStep[]
+}
+
+// The mocks a scenario drives and the collateral that reads them. Any aggregator mock with
+// `updateAnswer` will do as a feed, like MockV3Aggregator or BoundedAggregatorMock.
+export interface ScenarioTarget {
+  collateral: CvxCurveStableLPCollateral
+  curvePool: CurvePoolMock
+  feeds: Record<string, Pick<MockV3Aggregator, 'updateAnswer'>>
+}
+
+export interface TimelinePoint {
+  at: number // {s} since the start of the scenario
+  timestamp: number
+  status: string
+  whenDefault?: number // undefined while the collateral has no default scheduled
+  price: bigint // {UoA/tok}
+  isFallbackPrice: boolean
+  refPerTok: bigint
+}
+
+// Replays `scenario` against the target, calling refresh() after applying each step, and reads
+// the collateral back. Feeds only get a new round when a step sets them, so a feed left alone for
+// longer than its timeout goes stale like it would on chain.
+export const runScenario = async (
+  target: ScenarioTarget,
+  scenario: Scenario
+): Promise<TimelinePoint[]> => {
+  const { collateral, curvePool, feeds } = target
+  const start = await time.latest()
+  const timeline: TimelinePoint[] = []
+
+  let last = -1
+  for (const step of scenario.steps) {
+    if (step.at <= last) {
+      throw new Error(`${scenario.name}: step at ${step.at}s is not after the one at ${last}s`)
+    }
+    last = step.at
+    if (start + step.at > (await time.latest())) await time.increaseTo(start + step.at)
+
+    for (const [name, answer] of Object.entries(step.feeds ?? {})) {
+      const feed = feeds[name]
+      if (feed === undefined) throw new Error(`${scenario.name}: unknown feed ${name}`)
+      await feed.updateAnswer(answer)
+    }
+    if (step.balances !== undefined) await curvePool.setBalances(step.balances)
+    if (step.virtualPrice !== undefined) await curvePool.setVirtualPrice(step.virtualPrice)
+
+    await collateral.refresh()
+
+    const whenDefault = (await collateral.whenDefault()).toBigInt()
+    const [isFallbackPrice, price] = await collateral.price(true)
+    timeline.push({
+      at: step.at,
+      timestamp: await time.latest(),
+      status: STATUS_NAMES[await collateral.status()],
+      whenDefault: whenDefault === NEVER ? undefined : Number(whenDefault),
+      price: price.toBigInt(),
+      isFallbackPrice,
+      refPerTok: (await collateral.refPerTok()).toBigInt(),
+    })
+  }
+  return timeline
+}
+
+// The points where the status differs from the one before, starting with the first point
+export const statusChanges = (timeline: TimelinePoint[]): TimelinePoint[] =>
+  timeline.filter((point, i) => i === 0 || point.status !== timeline[i - 1].status)
+
+// bigint is not serializable by default
+export const formatTimelineJson = (timeline: TimelinePoint[]): string =>
+  JSON.stringify(timeline, (_, value) => (typeof value === 'bigint' ? value.toString() : value))
+
+export const formatTimelineCsv = (timeline: TimelinePoint[]): string => {
+  const fmt = (value: bigint) => ethers.utils.formatUnits(value, 18)
+  const lines = ['at,timestamp,status,whenDefault,price,isFallbackPrice,refPerTok']
+  for (const point of timeline) {
+    lines.push(
+      [
+        point.at,
+        point.timestamp,
+        point.status,
+        point.whenDefault ?? '',
+        fmt(point.price),
+        point.isFallbackPrice,
+        fmt(point.refPerTok),
+      ].join(',')
+    )
+  }
+  return lines.join('\n')
+}
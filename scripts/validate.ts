@@ -0,0 +1,625 @@
+import { BigNumber } from 'ethers'
+import { ethers, network } from 'hardhat'
+import {
+  AggregatorV3Interface,
+  ConvexStakingWrapper,
+  IBoundedAggregator,
+  IChainlinkFeedProxy,
+  ICToken,
+  ICurvePool,
+  IBooster,
+  IYToken,
+  LockPokeProbe__factory,
+} from '../typechain-types'
+import { NetworkConfig, networkConfig, getPoolPreset } from './configuration'
+
+const ERC20 = '@openzeppelin/contracts/token/ERC20/ERC20.sol:ERC20'
+const CONVEX_BOOSTER = '0xF403C135812408BFbE8713b5A23a04b3D48AAE31'
+const NATIVE_ETH = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE'
+const MAX_FEEDS_PER_TOKEN = 255
+const FIX_ONE = 10n ** 18n
+const LENDING_POOL = 1
+const METAPOOL = 2
+const WRAPPED_RATE_NAMES = ['None', 'Compound', 'Yearn']
+const NO_LOCK_POKE = '0x00000000'
+const LOCK_POKE_GAS = 10_000 // Same as CvxCurveStableLPCollateral
+const PRICING_MODE_NAMES = ['Balances', 'VirtualPriceMin', 'VirtualPriceMean']
+const IMBALANCE_MODE_NAMES = ['Spread', 'ValueWeighted']
+const STATUS_NAMES = ['SOUND', 'IFFY', 'DISABLED']
+const VALUE_WEIGHTED = 1
+const FEED_OPERATION_SYMBOLS = ['*', '/'] // Multiply, Divide
+
+export enum CheckLevel {
+  PASS = 'PASS',
+  WARN = 'WARN',
+  FAIL = 'FAIL',
+}
+
+export interface Check {
+  level: CheckLevel
+  subject: string
+  detail: string
+}
+
+const pass = (subject: string, detail: string): Check => ({
+  level: CheckLevel.PASS,
+  subject,
+  detail,
+})
+const warn = (subject: string, detail: string): Check => ({
+  level: CheckLevel.WARN,
+  subject,
+  detail,
+})
+const fail = (subject: string, detail: string): Check => ({
+  level: CheckLevel.FAIL,
+  subject,
+  detail,
+})
+
+// ethers errors carry a short reason or code next to a very long message
+const errorMessage = (e: unknown) => {
+  const err = <{ reason?: string; code?: string; message?: string }>e
+  return err.reason ?? err.code ?? String(err.message ?? e).split('\n')[0]
+}
+
+// Mirrors the constructor requirements of CvxCurveStableLPCollateral and PoolTokens so they are
+// reported before deploying instead of as a revert.
+const checkParameters = (config: NetworkConfig): Check[] => {
+  const opts = config.collateralOpts
+  const checks: Check[] = []
+  const positive: [string, bigint][] = [
+    ['oracleTimeout', opts.oracleTimeout],
+    ['fallbackPrice', opts.fallbackPrice],
+    ['maxTradeVolume', opts.maxTradeVolume],
+    ['defaultThreshold', opts.defaultThreshold],
+    ['poolRatioThreshold', opts.poolRatioThreshold],
+    ['delayUntilDefault', opts.delayUntilDefault],
+  ]
+  for (const [name, value] of positive) {
+    checks.push(value > 0n ? pass(name, value.toString()) : fail(name, 'must be greater than zero'))
+  }
+
+  const shutdownStatus = STATUS_NAMES[opts.shutdownStatus]
+  checks.push(
+    shutdownStatus === 'IFFY' || shutdownStatus === 'DISABLED'
+      ? pass('shutdownStatus', shutdownStatus)
+      : fail('shutdownStatus', 'must be IFFY (1) or DISABLED (2)')
+  )
+  checks.push(
+    pass(
+      'pegHalfLife',
+      opts.pegHalfLife > 0n ? `${opts.pegHalfLife}s` : 'none, the current prices are checked'
+    )
+  )
+  checks.push(
+    opts.revenueHiding < FIX_ONE
+      ? pass('revenueHiding', ethers.utils.formatEther(opts.revenueHiding))
+      : fail('revenueHiding', 'must be below 1')
+  )
+  checks.push(
+    opts.targetName !== ethers.constants.HashZero
+      ? pass('targetName', ethers.utils.parseBytes32String(opts.targetName))
+      : fail('targetName', 'missing')
+  )
+  // The unit of account is USD, so other targets are priced through targetPegFeed
+  const targetName = ethers.utils.parseBytes32String(opts.targetName)
+  if (targetName === 'USD' && opts.targetPegFeed !== ethers.constants.AddressZero) {
+    checks.push(warn('targetPegFeed', 'set for a USD target, which is worth 1 without a feed'))
+  } else if (targetName !== 'USD' && opts.targetPegFeed === ethers.constants.AddressZero) {
+    checks.push(fail('targetPegFeed', `missing, needed to price the ${targetName} target in USD`))
+  }
+  checks.push(
+    opts.tokensPriceFeeds.length === opts.nTokens
+      ? pass('tokensPriceFeeds', `feeds for ${opts.nTokens} tokens`)
+      : fail(
+          'tokensPriceFeeds',
+          `has ${opts.tokensPriceFeeds.length} entries, nTokens is ${opts.nTokens}`
+        )
+  )
+  opts.tokensPriceFeeds.forEach((feeds, i) => {
+    if (feeds.length === 0) checks.push(fail(`token ${i} feeds`, 'needs at least 1 price feed'))
+    if (feeds.length > MAX_FEEDS_PER_TOKEN) {
+      checks.push(fail(`token ${i} feeds`, `too many price feeds, limit is ${MAX_FEEDS_PER_TOKEN}`))
+    }
+  })
+
+  if (opts.feedTimeouts.length > 0) {
+    const sameShape =
+      opts.feedTimeouts.length === opts.tokensPriceFeeds.length &&
+      opts.feedTimeouts.every((timeouts, i) => timeouts.length === opts.tokensPriceFeeds[i].length)
+    if (!sameShape) {
+      checks.push(fail('feedTimeouts', 'need 1 timeout for each price feed'))
+    } else if (opts.feedTimeouts.some((timeouts) => timeouts.some((t) => t <= 0n))) {
+      checks.push(fail('feedTimeouts', 'must be greater than zero'))
+    } else {
+      checks.push(pass('feedTimeouts', opts.feedTimeouts.map((t) => t.join('/')).join(', ')))
+    }
+  }
+
+  if (opts.feedOperations.length > 0) {
+    const sameShape =
+      opts.feedOperations.length === opts.tokensPriceFeeds.length &&
+      opts.feedOperations.every((ops, i) => ops.length === opts.tokensPriceFeeds[i].length)
+    if (!sameShape) {
+      checks.push(fail('feedOperations', 'need 1 operation for each price feed'))
+    } else if (opts.feedOperations.some((ops) => ops.some((op) => !FEED_OPERATION_SYMBOLS[op]))) {
+      checks.push(fail('feedOperations', 'must be Multiply (0) or Divide (1)'))
+    } else {
+      checks.push(
+        pass(
+          'feedOperations',
+          opts.feedOperations
+            .map((ops) => ops.map((op) => FEED_OPERATION_SYMBOLS[op]).join(''))
+            .join(', ')
+        )
+      )
+    }
+  }
+
+  if (opts.defaultThresholds.length > 0) {
+    if (opts.defaultThresholds.length !== opts.nTokens) {
+      checks.push(fail('defaultThresholds', 'need 1 threshold for each token'))
+    } else if (opts.defaultThresholds.some((t) => t <= 0n || t >= FIX_ONE)) {
+      checks.push(fail('defaultThresholds', 'must be between 0 and 1'))
+    } else {
+      checks.push(
+        pass(
+          'defaultThresholds',
+          opts.defaultThresholds.map((t) => ethers.utils.formatEther(t)).join(', ')
+        )
+      )
+    }
+  }
+
+  if (opts.wrappedRates.length > 0) {
+    checks.push(
+      opts.poolType === LENDING_POOL && opts.wrappedRates.length === opts.nTokens
+        ? pass('wrappedRates', opts.wrappedRates.map((r) => WRAPPED_RATE_NAMES[r]).join(', '))
+        : fail('wrappedRates', 'need a Lending pool and 1 rate for each token')
+    )
+  }
+
+  const pricingMode = PRICING_MODE_NAMES[opts.pricingMode]
+  if (pricingMode === undefined) {
+    checks.push(fail('pricingMode', `unknown pricing mode ${opts.pricingMode}`))
+  } else {
+    checks.push(pass('pricingMode', pricingMode))
+  }
+
+  const imbalanceMode = IMBALANCE_MODE_NAMES[opts.imbalanceMode]
+  if (imbalanceMode === undefined) {
+    checks.push(fail('imbalanceMode', `unknown imbalance mode ${opts.imbalanceMode}`))
+  } else {
+    checks.push(pass('imbalanceMode', imbalanceMode))
+  }
+
+  if (opts.targetWeights.length > 0) {
+    // Metapools have 2 balances, the paired coin and the base pool LP token
+    const balances = opts.poolType === METAPOOL ? 2 : opts.nTokens
+    const total = opts.targetWeights.reduce((a, b) => a + b, 0n)
+    if (opts.imbalanceMode !== VALUE_WEIGHTED) {
+      checks.push(fail('targetWeights', 'only used by the ValueWeighted imbalance mode'))
+    } else if (opts.targetWeights.length !== balances || opts.targetWeights.some((w) => w <= 0n)) {
+      checks.push(fail('targetWeights', `need ${balances} positive weights, 1 for each balance`))
+    } else if (total !== FIX_ONE) {
+      checks.push(fail('targetWeights', `sum to ${ethers.utils.formatEther(total)} instead of 1`))
+    } else {
+      checks.push(
+        pass('targetWeights', opts.targetWeights.map((w) => ethers.utils.formatEther(w)).join(', '))
+      )
+    }
+  }
+
+  if (config.priceRange !== undefined) {
+    const { priceTimeout, oracleErrors } = config.priceRange
+    checks.push(
+      priceTimeout > 0n
+        ? pass('priceTimeout', priceTimeout.toString())
+        : fail('priceTimeout', 'must be greater than zero')
+    )
+    const sameShape =
+      oracleErrors.length === opts.tokensPriceFeeds.length &&
+      oracleErrors.every((errors, i) => errors.length === opts.tokensPriceFeeds[i].length)
+    checks.push(
+      sameShape
+        ? pass('oracleErrors', oracleErrors.map((errors) => errors.join(' * ')).join(', '))
+        : fail('oracleErrors', 'each price feed needs an oracleError')
+    )
+    oracleErrors.forEach((errors, i) =>
+      errors.forEach((error, j) => {
+        if (error === undefined || error >= FIX_ONE) {
+          checks.push(fail(`token ${i} feed ${j} oracleError`, 'missing or not below 1e18'))
+        }
+      })
+    )
+  }
+
+  return checks
+}
+
+const checkPoolTokens = async (config: NetworkConfig): Promise<[Check[], string[]]> => {
+  const opts = config.collateralOpts
+  const checks: Check[] = []
+  const tokens: string[] = []
+  const curvePool = <ICurvePool>await ethers.getContractAt('ICurvePool', opts.curvePool)
+  // Metapool tokens are the paired coin followed by the base coins
+  const coinAt = [
+    (i: number): [string, Promise<string>] => [`coins(${i})`, curvePool.coins(i)],
+    (i: number): [string, Promise<string>] => [
+      `underlying_coins(${i})`,
+      curvePool.underlying_coins(i),
+    ],
+    (i: number): [string, Promise<string>] =>
+      i === 0
+        ? ['coins(0)', curvePool.coins(0)]
+        : [`base_coins(${i - 1})`, curvePool.base_coins(i - 1)],
+  ][opts.poolType]
+
+  if (coinAt === undefined) {
+    return [[fail('poolType', `unknown pool type ${opts.poolType}`)], tokens]
+  }
+
+  if (opts.poolType === METAPOOL) {
+    try {
+      const basePool = await curvePool.base_pool()
+      if (basePool === ethers.constants.AddressZero) {
+        checks.push(fail('base_pool', 'base pool address is zero'))
+      } else {
+        checks.push(pass('base_pool', `base pool is ${basePool}`))
+      }
+    } catch (e) {
+      checks.push(fail('base_pool', `could not read the base pool: ${errorMessage(e)}`))
+    }
+  }
+
+  for (let i = 0; i < opts.nTokens; i++) {
+    const [subject, coin] = coinAt(i)
+    try {
+      const token = await coin
+      tokens.push(token)
+      if (token.toLowerCase() === NATIVE_ETH.toLowerCase()) {
+        checks.push(pass(subject, `native ETH (${token}), 18 decimals`))
+        continue
+      }
+      const erc20 = await ethers.getContractAt(ERC20, token)
+      checks.push(
+        pass(subject, `${await erc20.symbol()} (${token}), ${await erc20.decimals()} decimals`)
+      )
+    } catch {
+      checks.push(fail(subject, `reverted, pool has fewer tokens than nTokens`))
+    }
+  }
+
+  const [extraSubject, extraCoin] = coinAt(opts.nTokens)
+  try {
+    const extra = await extraCoin
+    checks.push(fail('nTokens', `pool has more tokens than nTokens, ${extraSubject} is ${extra}`))
+  } catch {
+    checks.push(pass('nTokens', `pool has ${opts.nTokens} tokens`))
+  }
+
+  return [checks, tokens]
+}
+
+// Reads the rate of every wrapped coin that does not convert 1:1 to its underlying coin
+const checkWrappedRates = async (config: NetworkConfig): Promise<Check[]> => {
+  const opts = config.collateralOpts
+  const checks: Check[] = []
+  const curvePool = <ICurvePool>await ethers.getContractAt('ICurvePool', opts.curvePool)
+
+  for (let i = 0; i < opts.wrappedRates.length; i++) {
+    const rateName = WRAPPED_RATE_NAMES[opts.wrappedRates[i]]
+    if (rateName === undefined) {
+      checks.push(fail(`coins(${i}) rate`, `unknown wrapped rate ${opts.wrappedRates[i]}`))
+      continue
+    }
+    if (rateName === 'None') continue
+
+    try {
+      const coin = await curvePool.coins(i)
+      const rate =
+        rateName === 'Compound'
+          ? await (<ICToken>await ethers.getContractAt('ICToken', coin)).exchangeRateStored()
+          : await (<IYToken>await ethers.getContractAt('IYToken', coin)).getPricePerFullShare()
+      checks.push(pass(`coins(${i}) rate`, `${rateName} rate of ${coin} is ${rate}`))
+    } catch (e) {
+      checks.push(
+        fail(`coins(${i}) rate`, `could not read the ${rateName} rate: ${errorMessage(e)}`)
+      )
+    }
+  }
+  return checks
+}
+
+// Chainlink feeds are proxies to an aggregator with fixed minAnswer and maxAnswer, undefined for
+// other feeds
+const tryReadBounds = async (feed: string): Promise<[BigNumber, BigNumber] | undefined> => {
+  try {
+    const proxy = <IChainlinkFeedProxy>await ethers.getContractAt('IChainlinkFeedProxy', feed)
+    const aggregator = <IBoundedAggregator>(
+      await ethers.getContractAt('IBoundedAggregator', await proxy.aggregator())
+    )
+    return [await aggregator.minAnswer(), await aggregator.maxAnswer()]
+  } catch {
+    return undefined
+  }
+}
+
+const checkFeed = async (
+  subject: string,
+  address: string,
+  oracleTimeout: bigint,
+  now: number
+): Promise<Check> => {
+  try {
+    const feed = <AggregatorV3Interface>await ethers.getContractAt('AggregatorV3Interface', address)
+    const description = await feed.description()
+    const decimals = await feed.decimals()
+    const { roundId, answer, updatedAt, answeredInRound } = await feed.latestRoundData()
+    const age = BigInt(now) - updatedAt.toBigInt()
+    const summary = `"${description}" (${address}) = ${ethers.utils.formatUnits(answer, decimals)}`
+
+    if (answer.lte(0)) return fail(subject, `${summary}, answer is not positive`)
+    if (updatedAt.isZero() || answeredInRound.lt(roundId)) {
+      return fail(subject, `${summary}, stale round`)
+    }
+    if (age > oracleTimeout) {
+      return fail(
+        subject,
+        `${summary}, updated ${age}s ago which is beyond oracleTimeout ${oracleTimeout}s`
+      )
+    }
+
+    // The collateral fails answers at the bounds of the aggregator behind the feed
+    const bounds = await tryReadBounds(address)
+    if (bounds !== undefined) {
+      const [minAnswer, maxAnswer] = bounds
+      const range = `[${ethers.utils.formatUnits(minAnswer, decimals)}, ${ethers.utils.formatUnits(
+        maxAnswer,
+        decimals
+      )}]`
+      if (answer.lte(minAnswer) || answer.gte(maxAnswer)) {
+        return fail(subject, `${summary}, pinned at a bound of its aggregator ${range}`)
+      }
+      return pass(subject, `${summary}, updated ${age}s ago, bounded to ${range}`)
+    }
+    return pass(subject, `${summary}, updated ${age}s ago`)
+  } catch (e) {
+    return fail(subject, `${address} is not a readable Chainlink feed: ${errorMessage(e)}`)
+  }
+}
+
+const checkFeeds = async (config: NetworkConfig, tokens: string[]): Promise<Check[]> => {
+  const opts = config.collateralOpts
+  const checks: Check[] = []
+  const now = (await ethers.provider.getBlock('latest')).timestamp
+
+  for (let i = 0; i < opts.tokensPriceFeeds.length; i++) {
+    const feeds = opts.tokensPriceFeeds[i]
+    for (let j = 0; j < feeds.length; j++) {
+      const timeout = opts.feedTimeouts[i]?.[j] ?? opts.oracleTimeout
+      checks.push(await checkFeed(`token ${i} feed ${j}`, feeds[j], timeout, now))
+    }
+
+    // The first feed of a chain is expected to quote the token itself, e.g. "DAI / USD"
+    const token = tokens[i]
+    if (
+      feeds.length > 0 &&
+      token !== undefined &&
+      token.toLowerCase() !== NATIVE_ETH.toLowerCase()
+    ) {
+      try {
+        const symbol = await (await ethers.getContractAt(ERC20, token)).symbol()
+        const feed = <AggregatorV3Interface>(
+          await ethers.getContractAt('AggregatorV3Interface', feeds[0])
+        )
+        const description = await feed.description()
+        if (!description.toUpperCase().includes(symbol.toUpperCase())) {
+          checks.push(warn(`token ${i} feed 0`, `"${description}" does not mention ${symbol}`))
+        }
+      } catch {
+        // Already reported by the checks above
+      }
+    }
+  }
+
+  if (opts.targetPegFeed !== ethers.constants.AddressZero) {
+    checks.push(await checkFeed('targetPegFeed', opts.targetPegFeed, opts.oracleTimeout, now))
+
+    // The feed is expected to quote the target, e.g. "ETH / USD" for an ETH target
+    const targetName = ethers.utils.parseBytes32String(opts.targetName)
+    try {
+      const feed = <AggregatorV3Interface>(
+        await ethers.getContractAt('AggregatorV3Interface', opts.targetPegFeed)
+      )
+      const description = await feed.description()
+      if (!description.toUpperCase().startsWith(targetName.toUpperCase())) {
+        checks.push(warn('targetPegFeed', `"${description}" does not quote ${targetName}`))
+      }
+    } catch {
+      // Already reported by checkFeed
+    }
+  }
+  return checks
+}
+
+const checkConvex = async (config: NetworkConfig): Promise<Check[]> => {
+  const lpToken = config.collateralOpts.lpToken
+  const checks: Check[] = []
+  try {
+    const booster = <IBooster>await ethers.getContractAt('IBooster', CONVEX_BOOSTER)
+    let curveToken: string
+    let subject: string
+    let poolId = BigInt(config.convexPoolId)
+    if (config.convexStakingWrapper !== undefined) {
+      const wrapper = <ConvexStakingWrapper>(
+        await ethers.getContractAt('ConvexStakingWrapper', config.convexStakingWrapper)
+      )
+      curveToken = await wrapper.curveToken()
+      poolId = (await wrapper.convexPoolId()).toBigInt()
+      subject = 'convexStakingWrapper'
+      if (await wrapper.isShutdown()) checks.push(fail(subject, 'is shut down'))
+    } else {
+      curveToken = (await booster.callStatic.poolInfo(poolId))._lptoken
+      subject = `convexPoolId ${poolId}`
+    }
+
+    checks.push(
+      curveToken.toLowerCase() === lpToken.toLowerCase()
+        ? pass(subject, `stakes ${curveToken}`)
+        : fail(subject, `stakes ${curveToken} instead of lpToken ${lpToken}`)
+    )
+    if ((await booster.callStatic.poolInfo(poolId))._shutdown) {
+      checks.push(fail(`convexPoolId ${poolId}`, 'is shut down'))
+    }
+  } catch (e) {
+    checks.push(fail('convex', `could not read the staked curve token: ${errorMessage(e)}`))
+  }
+  return checks
+}
+
+// The collateral treats a killed Curve pool like a Convex shutdown. Pools that keep is_killed
+// private, like 3pool, cannot be checked.
+const checkKillSwitch = async (config: NetworkConfig): Promise<Check[]> => {
+  const curvePool = <ICurvePool>(
+    await ethers.getContractAt('ICurvePool', config.collateralOpts.curvePool)
+  )
+  try {
+    return (await curvePool.is_killed())
+      ? [fail('curvePool', 'is killed')]
+      : [pass('curvePool', 'is not killed')]
+  } catch {
+    return [warn('curvePool', 'has no readable is_killed, a kill of the pool goes unnoticed')]
+  }
+}
+
+// Pools holding native ETH can be reentered while their virtual price is off, so they need the
+// lock poke. LockPokeProbe pokes the pool like the collateral, with zero arguments in a
+// staticcall capped at LOCK_POKE_GAS. The pool is unlocked outside of a transaction, so the poke
+// has to use up the gas setting the lock, or the collateral's constructor rejects it.
+export const checkReentrancyLock = async (
+  config: NetworkConfig,
+  tokens: string[]
+): Promise<Check[]> => {
+  const opts = config.collateralOpts
+  const holdsEth = tokens.some((token) => token.toLowerCase() === NATIVE_ETH.toLowerCase())
+  if (opts.reentrancyLockPoke === NO_LOCK_POKE) {
+    return holdsEth
+      ? [warn('reentrancyLockPoke', 'pool holds native ETH but the reentrancy check is disabled')]
+      : []
+  }
+
+  const LockPokeProbeFactory = <LockPokeProbe__factory>(
+    await ethers.getContractFactory('LockPokeProbe')
+  )
+  const [success, gasUsed] = ethers.utils.defaultAbiCoder.decode(
+    ['bool', 'uint256'],
+    await ethers.provider.call(
+      LockPokeProbeFactory.getDeployTransaction(opts.curvePool, opts.reentrancyLockPoke)
+    )
+  )
+  if (success) {
+    return [
+      fail(
+        'reentrancyLockPoke',
+        `${opts.reentrancyLockPoke} succeeds, the selector does not touch the reentrancy lock`
+      ),
+    ]
+  }
+  // Like setting the lock within a staticcall, which uses up all of the gas
+  if (gasUsed.gte(LOCK_POKE_GAS)) {
+    return [
+      pass('reentrancyLockPoke', `${opts.reentrancyLockPoke} uses up the ${LOCK_POKE_GAS} gas`),
+    ]
+  }
+  return [
+    fail(
+      'reentrancyLockPoke',
+      `${opts.reentrancyLockPoke} reverts after ${gasUsed} gas, the collateral takes the pool ` +
+        'as locked and cannot be deployed'
+    ),
+  ]
+}
+
+// On L2s, the collateral reads the sequencer uptime feed before any price feed
+const checkSequencer = async (config: NetworkConfig): Promise<Check[]> => {
+  const sequencer = config.sequencer
+  if (sequencer === undefined) return []
+  const checks: Check[] = []
+  if (sequencer.gracePeriod <= 0n) {
+    checks.push(warn('sequencer.gracePeriod', 'zero, prices resume before the feeds catch up'))
+  }
+  try {
+    const feed = <AggregatorV3Interface>(
+      await ethers.getContractAt('AggregatorV3Interface', sequencer.uptimeFeed)
+    )
+    const { answer, startedAt } = await feed.latestRoundData()
+    if (!answer.isZero() || startedAt.isZero()) {
+      checks.push(
+        warn('sequencer.uptimeFeed', `${sequencer.uptimeFeed} reports the sequencer down`)
+      )
+    } else {
+      const since = new Date(startedAt.toNumber() * 1000).toISOString()
+      checks.push(
+        pass('sequencer.uptimeFeed', `${sequencer.uptimeFeed} reports it up since ${since}`)
+      )
+    }
+  } catch (e) {
+    checks.push(
+      fail('sequencer.uptimeFeed', `${sequencer.uptimeFeed} is not readable: ${errorMessage(e)}`)
+    )
+  }
+  return checks
+}
+
+export const validateConfig = async (config: NetworkConfig): Promise<Check[]> => {
+  const [poolChecks, tokens] = await checkPoolTokens(config)
+  return [
+    ...checkParameters(config),
+    ...poolChecks,
+    ...(await checkReentrancyLock(config, tokens)),
+    ...(await checkWrappedRates(config)),
+    ...(await checkFeeds(config, tokens)),
+    ...(await checkConvex(config)),
+    ...(await checkKillSwitch(config)),
+    ...(await checkSequencer(config)),
+  ]
+}
+
+export const printReport = (checks: Check[]) => {
+  const width = Math.max(...checks.map((c) => c.subject.length))
+  for (const check of checks) {
+    console.log(`${check.level}  ${check.subject.padEnd(width)}  ${check.detail}`)
+  }
+  const failures = checks.filter((c) => c.level === CheckLevel.FAIL).length
+  const warnings = checks.filter((c) => c.level === CheckLevel.WARN).length
+  console.log(`\n${checks.length} checks, ${failures} failed, ${warnings} warnings`)
+}
+
+// Validates the configuration for the current network or, when `poolName` is given, for that pool
+// preset. Throws if any check fails.
+export async function validate(poolName?: string) {
+  const config =
+    poolName === undefined
+      ? networkConfig[network.name]
+      : { sequencer: networkConfig[network.name]?.sequencer, ...getPoolPreset(poolName) }
+  if (config === undefined) {
+    throw new Error(`No configuration for network ${network.name}, pass a pool preset instead`)
+  }
+
+  console.log(`Validating ${poolName ?? network.name} configuration on network ${network.name}\n`)
+  const checks = await validateConfig(config)
+  printReport(checks)
+
+  if (checks.some((c) => c.level === CheckLevel.FAIL)) {
+    throw new Error('Configuration is invalid')
+  }
+}
+
+if (require.main === module) {
+  validate().catch((error) => {
+    console.error(error)
+    process.exitCode = 1
+  })
+}
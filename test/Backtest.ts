@@ -0,0 +1,172 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { expect } from 'chai'
+import { exp } from './helpers'
+import {
+  historyCoins,
+  historyToSteps,
+  HistoryRow,
+  loadHistory,
+  runBacktest,
+  sweep,
+} from '../scripts/backtest'
+
+describe('backtest', () => {
+  // 2023-03-10 00:00 UTC
+  const START = 1678406400
+  const CSV = [
+    'timestamp,dai,usdc,usdt,daiBalance,usdcBalance,usdtBalance,usdcDecimals,usdtDecimals,virtualPrice',
+    `${START},1,1,1,10000,10000,10000,6,6,1.02`,
+    `${START + 3600},,0.93,,9000,11000,10000,,,`,
+    `${START + 7200},0.99,,,,,,,,`,
+    `${START + 10800},1,0.99,1,,,,,,1.021`,
+  ].join('\n')
+  const writeHistory = () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'backtest-'))
+    fs.writeFileSync(path.join(dir, 'history.csv'), CSV)
+    return loadHistory(path.join(dir, 'history.csv'))
+  }
+
+  it('loads CSV and JSON history', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'backtest-'))
+    fs.writeFileSync(
+      path.join(dir, 'history.json'),
+      JSON.stringify([
+        {
+          timestamp: START,
+          dai: 1,
+          usdc: 1,
+          daiBalance: 10,
+          usdcBalance: 10,
+          virtualPrice: '1.02',
+        },
+        { timestamp: START + 3600, usdc: '0.93' },
+      ])
+    )
+
+    const csv = writeHistory()
+    expect(csv).to.have.length(4)
+    expect(csv[1]).to.eql({
+      timestamp: String(START + 3600),
+      dai: '',
+      usdc: '0.93',
+      usdt: '',
+      daiBalance: '9000',
+      usdcBalance: '11000',
+      usdtBalance: '10000',
+      usdcDecimals: '',
+      usdtDecimals: '',
+      virtualPrice: '',
+    })
+    expect(loadHistory(path.join(dir, 'history.json'))).to.eql([
+      {
+        timestamp: String(START),
+        dai: '1',
+        usdc: '1',
+        daiBalance: '10',
+        usdcBalance: '10',
+        virtualPrice: '1.02',
+      },
+      { timestamp: String(START + 3600), usdc: '0.93' },
+    ])
+  })
+
+  it('takes the coins and their decimals from the history', async () => {
+    const history = writeHistory()
+    expect(historyCoins(history)).to.eql([
+      { symbol: 'dai', decimals: 18 },
+      { symbol: 'usdc', decimals: 6 },
+      { symbol: 'usdt', decimals: 6 },
+    ])
+    expect(() => historyCoins([{ timestamp: String(START), dai: '1' }])).to.throw(
+      'history has no <coin>Balance columns'
+    )
+  })
+
+  it('carries prices and balances forward', async () => {
+    const history = writeHistory()
+    const steps = historyToSteps(history, historyCoins(history))
+
+    expect(steps.map((step) => step.at)).to.eql([0, 3600, 7200, 10800])
+    expect(steps[1]).to.eql({
+      at: 3600,
+      feeds: { dai: exp(1, 8), usdc: exp(93, 6), usdt: exp(1, 8) },
+      balances: [exp(9000, 18), exp(11_000, 6), exp(10_000, 6)],
+    })
+    expect(steps[2]).to.eql({
+      at: 7200,
+      feeds: { dai: exp(99, 6), usdc: exp(93, 6), usdt: exp(1, 8) },
+    })
+    expect(steps[3].virtualPrice).to.equal(exp(1021, 15))
+  })
+
+  it('needs the first prices and balances', async () => {
+    const coins = [
+      { symbol: 'dai', decimals: 18 },
+      { symbol: 'usdc', decimals: 6 },
+    ]
+    const balances = { daiBalance: '1', usdcBalance: '1' }
+    expect(() =>
+      historyToSteps([{ timestamp: String(START), dai: '1', ...balances }], coins)
+    ).to.throw('the first row needs a usdc price')
+    expect(() =>
+      historyToSteps([{ timestamp: String(START), dai: '1', usdc: '1', daiBalance: '1' }], coins)
+    ).to.throw('the first row needs a usdcBalance')
+    expect(() => historyToSteps([{ dai: '1', usdc: '1', ...balances }], coins)).to.throw(
+      'row 1 has no timestamp'
+    )
+  })
+
+  it('reports IFFY and DISABLED times for each parameter set', async () => {
+    const paramSets = sweep([exp(5, 16), exp(1, 17)], [1800n, 86400n], [exp(3, 17)])
+    expect(paramSets).to.have.length(4)
+
+    const results = await runBacktest(writeHistory(), paramSets)
+
+    // USDC at 0.93 is beyond a 5% threshold for 2 hours. Times come from the blocks, which the
+    // updates of each row move a few seconds past the row.
+    const [shortDelay, longDelay, ...loose] = results
+    expect(shortDelay.params).to.eql(paramSets[0])
+    expect(shortDelay.iffyAt).to.be.closeTo(START + 3600, 5)
+    // DISABLED between the rows, once the delay is over
+    expect(shortDelay.disabledAt).to.equal(shortDelay.iffyAt! + 1800)
+    expect(shortDelay.iffyTime).to.equal(1800)
+    expect(shortDelay.changes.map((change) => change.status)).to.eql(['SOUND', 'IFFY', 'DISABLED'])
+
+    expect(longDelay.disabledAt).to.be.undefined
+    expect(longDelay.iffyTime).to.be.closeTo(7200, 5)
+    expect(longDelay.changes.map((change) => change.status)).to.eql(['SOUND', 'IFFY', 'SOUND'])
+    expect(longDelay.changes[0].timestamp).to.equal(START)
+    expect(longDelay.changes[2].timestamp).to.be.closeTo(START + 10800, 5)
+
+    for (const result of loose) {
+      expect(result.iffyAt).to.be.undefined
+      expect(result.iffyTime).to.equal(0)
+      expect(result.changes).to.eql([{ timestamp: START, status: 'SOUND' }])
+    }
+  })
+
+  it('prices the target unit from a target column', async () => {
+    const history: HistoryRow[] = [
+      {
+        timestamp: String(START),
+        eth: '1200',
+        steth: '1200',
+        ethBalance: '10',
+        stethBalance: '10',
+      },
+      { timestamp: String(START + 3600), steth: '1000' },
+    ]
+    await expect(
+      runBacktest(history, sweep([exp(5, 16)], [86400n], [exp(3, 17)]), 'steth')
+    ).to.be.rejectedWith('the steth preset has a targetPegFeed, the history needs a target column')
+
+    const [result] = await runBacktest(
+      history.map((row, i) => (i === 0 ? { ...row, target: '1200' } : row)),
+      sweep([exp(5, 16)], [86400n], [exp(3, 17)]),
+      'steth'
+    )
+    expect(result.changes.map((change) => change.status)).to.eql(['SOUND', 'IFFY'])
+  })
+})
@@ -0,0 +1,99 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { BoundedAggregatorMock__factory } from '../typechain-types'
+import { deployMockCollateral, makeCollateralMocks } from './fixtures'
+import { exp, CollateralStatus, FIX_ONE } from './helpers'
+import { readHealthReport } from '../scripts/healthReport'
+
+describe('circuit breakers', () => {
+  // Replaces the DAI feed with a feed whose aggregator clamps answers to [0.1, 2]
+  const deployWithBoundedFeed = async () => {
+    const mocks = await makeCollateralMocks()
+    const BoundedAggregatorMockFactory = <BoundedAggregatorMock__factory>(
+      await ethers.getContractFactory('BoundedAggregatorMock')
+    )
+    const daiFeed = await BoundedAggregatorMockFactory.deploy(8, exp(1, 8), exp(1, 7), exp(2, 8))
+    const { collateral } = await deployMockCollateral(
+      {
+        tokensPriceFeeds: [[daiFeed.address], [mocks.usdcFeed.address], [mocks.usdtFeed.address]],
+      },
+      mocks
+    )
+    return { ...mocks, collateral, daiFeed }
+  }
+
+  it('prices answers within the bounds', async () => {
+    const { collateral, daiFeed } = await deployWithBoundedFeed()
+
+    expect(await collateral.tokenPrice(0)).to.equal(FIX_ONE)
+    await daiFeed.updateAnswer(exp(11, 7))
+    expect(await collateral.tokenPrice(0)).to.equal(exp(11, 17))
+  })
+
+  it('fails a feed pinned at its minAnswer', async () => {
+    const { collateral, daiFeed } = await deployWithBoundedFeed()
+
+    // DAI crashes to 0.01, the aggregator keeps reporting 0.1
+    await daiFeed.updateAnswer(exp(1, 6))
+    expect(await daiFeed.latestAnswer()).to.equal(exp(1, 7))
+    await expect(collateral.tokenPrice(0))
+      .to.be.revertedWithCustomError(collateral, 'PriceAtBound')
+      .withArgs(daiFeed.address)
+    await expect(collateral.strictPrice()).to.be.revertedWithCustomError(collateral, 'PriceAtBound')
+    expect(await collateral.price(true)).to.deep.equal([true, ethers.BigNumber.from(FIX_ONE)])
+
+    await expect(collateral.refresh())
+      .to.emit(collateral, 'CollateralStatusChanged')
+      .withArgs(CollateralStatus.SOUND, CollateralStatus.IFFY)
+    expect((await readHealthReport(collateral)).tokens[0].feedReverted).to.be.true
+  })
+
+  it('fails a feed pinned at its maxAnswer', async () => {
+    const { collateral, daiFeed } = await deployWithBoundedFeed()
+
+    await daiFeed.updateAnswer(exp(3, 8))
+    await expect(collateral.tokenPrice(0))
+      .to.be.revertedWithCustomError(collateral, 'PriceAtBound')
+      .withArgs(daiFeed.address)
+  })
+
+  it('fails a round answered in an earlier round', async () => {
+    const { collateral, daiFeed } = await deployWithBoundedFeed()
+
+    await daiFeed.updateAnswer(exp(1, 8))
+    await daiFeed.setAnsweredInRound(1)
+    await expect(collateral.tokenPrice(0))
+      .to.be.revertedWithCustomError(collateral, 'RoundIncomplete')
+      .withArgs(daiFeed.address)
+    await collateral.refresh()
+    expect(await collateral.status()).to.equal(CollateralStatus.IFFY)
+  })
+
+  it('fails a bounded feed whose aggregator loses its bounds', async () => {
+    const { collateral, daiFeed, usdcFeed } = await deployWithBoundedFeed()
+
+    // The feed was found bounded when the collateral was built, so it no longer fails quietly
+    await daiFeed.setAggregator(usdcFeed.address)
+    await expect(collateral.tokenPrice(0)).to.be.reverted
+    await expect(collateral.refresh()).to.be.reverted
+  })
+
+  it('checks the bounds of targetPegFeed', async () => {
+    const BoundedAggregatorMockFactory = <BoundedAggregatorMock__factory>(
+      await ethers.getContractFactory('BoundedAggregatorMock')
+    )
+    const ethFeed = await BoundedAggregatorMockFactory.deploy(
+      8,
+      exp(1200, 8),
+      exp(100, 8),
+      exp(10_000, 8)
+    )
+    const { collateral } = await deployMockCollateral({ targetPegFeed: ethFeed.address })
+    expect(await collateral.getPeg()).to.equal(exp(1200, 18))
+
+    await ethFeed.updateAnswer(exp(50, 8))
+    await expect(collateral.getPeg())
+      .to.be.revertedWithCustomError(collateral, 'PriceAtBound')
+      .withArgs(ethFeed.address)
+  })
+})
@@ -2,7 +2,7 @@ import { expect } from 'chai'
 import { ethers } from 'hardhat'
 import { time } from '@nomicfoundation/hardhat-network-helpers'
 import { MockV3Aggregator, MockV3Aggregator__factory } from '../typechain-types'
-import { deployCollateral, makeReserveProtocol } from './fixtures'
+import { deployCollateral, makeReserveProtocol, shutdownConvexPool } from './fixtures'
 import {
   DAI_USD_FEED,
   THREE_POOL,
@@ -19,6 +19,7 @@ import {
   THREE_POOL_TOKEN,
   FIX_ONE,
   resetFork,
+  describeFork,
   COMP,
   MAX_TRADE_VOL,
   RSR,
@@ -33,7 +34,7 @@ import {
 
 const ERC20 = '@openzeppelin/contracts/token/ERC20/ERC20.sol:ERC20'
 
-describe('CvxCurveStableLPCollateral', () => {
+describeFork('CvxCurveStableLPCollateral', () => {
   describe('constructor validation', () => {
     it('validates targetName', async () => {
       await expect(deployCollateral({ targetName: ethers.constants.HashZero })).to.be.revertedWith(
@@ -59,12 +60,12 @@ describe('CvxCurveStableLPCollateral', () => {
       ).to.be.revertedWith('curvePool address is zero')
     })
 
-    it('must have feeds limited to 3', async () => {
+    it('must have feeds limited to 255', async () => {
       await expect(
         deployCollateral({
-          tokensPriceFeeds: [[USDC_USD_FEED, USDC_USD_FEED, USDC_USD_FEED, USDC_USD_FEED]],
+          tokensPriceFeeds: [new Array(256).fill(USDC_USD_FEED)],
         })
-      ).to.be.revertedWith('price feeds limited to 3')
+      ).to.be.revertedWith('too many price feeds')
     })
 
     it('needs at least 1 price feed for each token', async () => {
@@ -121,13 +122,20 @@ describe('CvxCurveStableLPCollateral', () => {
       expect(await curvePool.underlying_coins(2)).to.eq(await collateral.getToken(2))
     })
 
-    it('sets base coins for Metapools', async () => {
-      const collateral = await deployCollateral({ poolType: 2, curvePool: BBTC_POOL })
+    it('sets the paired coin and base coins for Metapools', async () => {
+      const collateral = await deployCollateral({
+        poolType: 2,
+        curvePool: BBTC_POOL,
+        nTokens: 4,
+        tokensPriceFeeds: new Array(4).fill([USDC_USD_FEED]),
+      })
       const curvePool = await ethers.getContractAt('ICurvePool', BBTC_POOL)
 
-      expect(await curvePool.base_coins(0)).to.eq(await collateral.getToken(0))
-      expect(await curvePool.base_coins(1)).to.eq(await collateral.getToken(1))
-      expect(await curvePool.base_coins(2)).to.eq(await collateral.getToken(2))
+      expect(await curvePool.coins(0)).to.eq(await collateral.getToken(0))
+      expect(await curvePool.base_coins(0)).to.eq(await collateral.getToken(1))
+      expect(await curvePool.base_coins(1)).to.eq(await collateral.getToken(2))
+      expect(await curvePool.base_coins(2)).to.eq(await collateral.getToken(3))
+      expect(await curvePool.base_pool()).to.eq(await collateral.basePool())
     })
   })
 
@@ -507,6 +515,29 @@ describe('CvxCurveStableLPCollateral', () => {
       expect(await collateral.status()).to.equal(CollateralStatus.DISABLED)
       expect(await collateral.whenDefault()).to.equal(prevWhenDefault)
     })
+
+    describe('when the Convex pool is shut down', () => {
+      afterEach(resetFork)
+
+      it('soft-defaults', async () => {
+        const collateral = await deployCollateral()
+        await shutdownConvexPool(9n)
+
+        expect(await collateral.poolShutDown()).to.be.true
+        await expect(collateral.refresh())
+          .to.emit(collateral, 'CollateralStatusChanged')
+          .withArgs(CollateralStatus.SOUND, CollateralStatus.IFFY)
+      })
+
+      it('hard-defaults with a DISABLED shutdownStatus', async () => {
+        const collateral = await deployCollateral({ shutdownStatus: CollateralStatus.DISABLED })
+        await shutdownConvexPool(9n)
+
+        await expect(collateral.refresh())
+          .to.emit(collateral, 'CollateralStatusChanged')
+          .withArgs(CollateralStatus.SOUND, CollateralStatus.DISABLED)
+      })
+    })
   })
 
   describe('refPerTok', () => {
@@ -528,6 +559,8 @@ describe('CvxCurveStableLPCollateral', () => {
         threePool.exchange(0, 1, exp(100_000, 18), exp(99_000, 6))
       ).to.changeTokenBalance(dai, swapper.address, `-${exp(100_000, 18)}`)
 
+      // refPerTok() follows the virtual price through refresh()
+      await collateral.refresh()
       let newRefPerTok = await collateral.refPerTok()
       expect(prevRefPerTok).to.be.lt(newRefPerTok)
       prevRefPerTok = newRefPerTok
@@ -546,6 +579,7 @@ describe('CvxCurveStableLPCollateral', () => {
         `-${balance}`
       )
 
+      await collateral.refresh()
       newRefPerTok = await collateral.refPerTok()
       expect(prevRefPerTok).to.be.lt(newRefPerTok)
       prevRefPerTok = newRefPerTok
@@ -563,13 +597,14 @@ describe('CvxCurveStableLPCollateral', () => {
         threePool.add_liquidity([daiBal, usdcBal, usdtBal], [0, 0, 0])
       ).to.changeTokenBalance(dai, swapper.address, `-${daiBal}`)
 
+      await collateral.refresh()
       newRefPerTok = await collateral.refPerTok()
       expect(prevRefPerTok).to.be.lt(newRefPerTok)
     })
   })
 })
 
-describe('CvxCurveStableLPCollateral integration with reserve protocol', () => {
+describeFork('CvxCurveStableLPCollateral integration with reserve protocol', () => {
   beforeEach(resetFork)
 
   it('sets up assets', async () => {
@@ -0,0 +1,438 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { time } from '@nomicfoundation/hardhat-network-helpers'
+import {
+  MockV3Aggregator__factory,
+  RewardPoolMock__factory,
+  TokenMock__factory,
+} from '../typechain-types'
+import { deployMockCollateral, makePool } from './fixtures'
+import { exp, CollateralStatus, DEFAULT_THRESHOLD, FIX_ONE, ORACLE_TIMEOUT } from './helpers'
+
+// Same behaviors as CvxCurveStableLPCollateral.ts but against local mocks, so these run on a
+// plain hardhat network without MAINNET_RPC_URL.
+describe('CvxCurveStableLPCollateral with mocks', () => {
+  describe('constructor validation', () => {
+    it('validates targetName', async () => {
+      await expect(
+        deployMockCollateral({ targetName: ethers.constants.HashZero })
+      ).to.be.revertedWith('targetName missing')
+    })
+
+    it('requires wrapped stake token', async () => {
+      await expect(
+        deployMockCollateral({ wrappedStakeToken: ethers.constants.AddressZero })
+      ).to.be.revertedWith('wrappedStakeToken address is zero')
+    })
+
+    it('does not allow lpToken address as zero', async () => {
+      await expect(
+        deployMockCollateral({ lpToken: ethers.constants.AddressZero })
+      ).to.be.revertedWith('lp token address is zero')
+    })
+
+    it('does not allow curve pool address as zero', async () => {
+      await expect(
+        deployMockCollateral({ curvePool: ethers.constants.AddressZero })
+      ).to.be.revertedWith('curvePool address is zero')
+    })
+
+    it('must have feeds limited to 255', async () => {
+      const feed = ethers.Wallet.createRandom().address
+      await expect(
+        deployMockCollateral({ tokensPriceFeeds: [new Array(256).fill(feed)] })
+      ).to.be.revertedWith('too many price feeds')
+    })
+
+    it('supports chains of more than 3 feeds', async () => {
+      const { collateral: plain, ...mocks } = await deployMockCollateral()
+      const { daiFeed, usdcFeed, usdtFeed } = mocks
+      const { collateral } = await deployMockCollateral(
+        {
+          tokensPriceFeeds: [
+            [daiFeed.address, usdcFeed.address, usdtFeed.address, daiFeed.address],
+            [usdcFeed.address],
+            [usdtFeed.address],
+          ],
+        },
+        mocks
+      )
+
+      await daiFeed.updateAnswer(exp(2, 8))
+      expect(await collateral.tokenPrice(0)).to.eq(exp(4, 18))
+      expect(await collateral.getTokenFeed(0, 3)).to.eq(daiFeed.address)
+      expect(await plain.tokenPrice(0)).to.eq(exp(2, 18))
+    })
+
+    it('needs at least 1 price feed for each token', async () => {
+      const feed = ethers.Wallet.createRandom().address
+      await expect(deployMockCollateral({ tokensPriceFeeds: [[feed]] })).to.be.revertedWith(
+        'each token needs at least 1 price feed'
+      )
+    })
+
+    it('max trade volume must be greater than zero', async () => {
+      await expect(deployMockCollateral({ maxTradeVolume: 0n })).to.be.revertedWith(
+        'invalid max trade volume'
+      )
+    })
+
+    it('does not allow oracle timeout at 0', async () => {
+      await expect(deployMockCollateral({ oracleTimeout: 0n })).to.be.revertedWith(
+        'oracleTimeout zero'
+      )
+    })
+
+    it('does not allow missing defaultThreshold', async () => {
+      await expect(deployMockCollateral({ defaultThreshold: 0n })).to.be.revertedWith(
+        'defaultThreshold zero'
+      )
+    })
+
+    it('needs a timeout for each price feed', async () => {
+      await expect(
+        deployMockCollateral({ feedTimeouts: [[ORACLE_TIMEOUT], [ORACLE_TIMEOUT]] })
+      ).to.be.revertedWith('each price feed needs a timeout')
+      await expect(
+        deployMockCollateral({ feedTimeouts: [[ORACLE_TIMEOUT], [], [ORACLE_TIMEOUT]] })
+      ).to.be.revertedWith('each price feed needs a timeout')
+      await expect(
+        deployMockCollateral({ feedTimeouts: [[ORACLE_TIMEOUT], [0n], [ORACLE_TIMEOUT]] })
+      ).to.be.revertedWith('oracleTimeout zero')
+    })
+
+    it('needs a defaultThreshold below 1 for each token', async () => {
+      await expect(
+        deployMockCollateral({ defaultThresholds: [DEFAULT_THRESHOLD, DEFAULT_THRESHOLD] })
+      ).to.be.revertedWith('each token needs a defaultThreshold')
+      await expect(
+        deployMockCollateral({ defaultThresholds: [DEFAULT_THRESHOLD, 0n, DEFAULT_THRESHOLD] })
+      ).to.be.revertedWith('defaultThreshold zero')
+      await expect(
+        deployMockCollateral({ defaultThresholds: [DEFAULT_THRESHOLD, FIX_ONE, DEFAULT_THRESHOLD] })
+      ).to.be.revertedWith('defaultThreshold too high')
+    })
+
+    it('does not allow missing delayUntilDefault', async () => {
+      await expect(deployMockCollateral({ delayUntilDefault: 0n })).to.be.revertedWith(
+        'delayUntilDefault zero'
+      )
+    })
+
+    it('needs revenueHiding below 1', async () => {
+      await expect(deployMockCollateral({ revenueHiding: FIX_ONE })).to.be.revertedWith(
+        'revenueHiding out of range'
+      )
+    })
+
+    it('does not allow zero fallbackPrice', async () => {
+      await expect(deployMockCollateral({ fallbackPrice: 0n })).to.be.revertedWith(
+        'fallback price zero'
+      )
+    })
+  })
+
+  describe('sets correct tokens according to Pool Type', () => {
+    it('sets coins for Plain Pools', async () => {
+      const { collateral, dai, usdc, usdt } = await deployMockCollateral({ poolType: 0 })
+
+      expect(await collateral.getToken(0)).to.eq(dai.address)
+      expect(await collateral.getToken(1)).to.eq(usdc.address)
+      expect(await collateral.getToken(2)).to.eq(usdt.address)
+    })
+
+    it('sets underlying coins for Lending Pools', async () => {
+      const { collateral: plain, ...mocks } = await deployMockCollateral()
+      const underlying = [
+        ethers.Wallet.createRandom().address,
+        ethers.Wallet.createRandom().address,
+        ethers.Wallet.createRandom().address,
+      ]
+      await mocks.curvePool.setUnderlyingCoins(underlying)
+      const { collateral } = await deployMockCollateral({ poolType: 1 }, mocks)
+
+      expect(await collateral.getToken(0)).to.eq(underlying[0])
+      expect(await collateral.getToken(1)).to.eq(underlying[1])
+      expect(await collateral.getToken(2)).to.eq(underlying[2])
+      expect(await plain.getToken(0)).to.not.eq(underlying[0])
+    })
+
+    it('sets the paired coin and base coins for Metapools', async () => {
+      const pool = await makePool({ type: 2, coins: ['GUSD'], decimals: [2] })
+      const { collateral } = await deployMockCollateral(pool.opts, pool)
+
+      expect(await collateral.getToken(0)).to.eq(pool.tokens.GUSD.address)
+      expect(await collateral.getToken(1)).to.eq(pool.dai.address)
+      expect(await collateral.getToken(2)).to.eq(pool.usdc.address)
+      expect(await collateral.getToken(3)).to.eq(pool.usdt.address)
+      expect(await collateral.basePool()).to.eq(pool.basePool.address)
+    })
+  })
+
+  describe('getPeg', () => {
+    it('supports non-fiat pegs', async () => {
+      const MockV3AggregatorFactory = <MockV3Aggregator__factory>(
+        await ethers.getContractFactory('MockV3Aggregator')
+      )
+      const ethFeed = await MockV3AggregatorFactory.deploy(8, exp(1200, 8))
+      const { collateral } = await deployMockCollateral({ targetPegFeed: ethFeed.address })
+
+      expect(await collateral.getPeg()).to.eq(exp(1200, 18))
+    })
+
+    it('supports fiat pegs', async () => {
+      const { collateral } = await deployMockCollateral({
+        targetPegFeed: ethers.constants.AddressZero,
+      })
+
+      expect(await collateral.getPeg()).to.eq(FIX_ONE)
+    })
+  })
+
+  describe('prices', () => {
+    it('returns price per lp token', async () => {
+      const { collateral, lpToken } = await deployMockCollateral()
+      // $30k of coins backing 30k LP tokens
+      expect(await collateral.strictPrice()).to.eq(FIX_ONE)
+
+      await lpToken.mint(ethers.Wallet.createRandom().address, exp(30_000, 18))
+      expect(await collateral.strictPrice()).to.eq(exp(5, 17))
+    })
+
+    it('price changes as USDC and USDT prices change', async () => {
+      const { collateral, usdcFeed, usdtFeed } = await deployMockCollateral()
+      let prevPrice = await collateral.strictPrice()
+
+      await usdcFeed.updateAnswer(exp(2, 8))
+      let newPrice = await collateral.strictPrice()
+      expect(newPrice).to.be.gt(prevPrice)
+      prevPrice = newPrice
+
+      await usdtFeed.updateAnswer(exp(2, 8))
+      newPrice = await collateral.strictPrice()
+      expect(newPrice).to.be.gt(prevPrice)
+    })
+
+    it('price changes as swaps occur', async () => {
+      const { collateral, curvePool, usdcFeed } = await deployMockCollateral()
+      await usdcFeed.updateAnswer(exp(99, 6))
+      let prevPrice = await collateral.strictPrice()
+
+      // Swap DAI for the cheaper USDC
+      await curvePool.exchange(0, 1, exp(5_000, 18), exp(4_900, 6))
+      let newPrice = await collateral.strictPrice()
+      expect(newPrice).to.be.gt(prevPrice)
+      prevPrice = newPrice
+
+      // Swap USDC back for DAI
+      await curvePool.exchange(1, 0, exp(8_000, 6), exp(7_900, 18))
+      newPrice = await collateral.strictPrice()
+      expect(newPrice).to.be.lt(prevPrice)
+    })
+
+    it('reverts if any token price is zero', async () => {
+      const { collateral, daiFeed, usdcFeed, usdtFeed } = await deployMockCollateral()
+
+      for (const feed of [daiFeed, usdcFeed, usdtFeed]) {
+        await feed.updateAnswer(0)
+        await expect(collateral.strictPrice()).to.be.revertedWithCustomError(
+          collateral,
+          'PriceOutsideRange'
+        )
+        // Fallback price is returned
+        const [isFallback, price] = await collateral.price(true)
+        expect(isFallback).to.equal(true)
+        expect(price).to.equal(await collateral.fallbackPrice())
+        await feed.updateAnswer(exp(1, 8))
+      }
+
+      // When refreshed, sets status to IFFY
+      await usdtFeed.updateAnswer(0)
+      await collateral.refresh()
+      expect(await collateral.status()).to.equal(CollateralStatus.IFFY)
+    })
+
+    it('reverts in case of invalid timestamp', async () => {
+      const { collateral, usdtFeed } = await deployMockCollateral()
+      await usdtFeed.setInvalidTimestamp()
+
+      await expect(collateral.strictPrice()).to.be.revertedWithCustomError(collateral, 'StalePrice')
+      await collateral.refresh()
+      expect(await collateral.status()).to.equal(CollateralStatus.IFFY)
+    })
+
+    it('reverts when a feed goes stale', async () => {
+      const { collateral } = await deployMockCollateral()
+      await time.increase((await collateral.oracleTimeout()) + 1)
+
+      await expect(collateral.strictPrice()).to.be.revertedWithCustomError(collateral, 'StalePrice')
+    })
+  })
+
+  describe('status', () => {
+    it('maintains status in normal situations', async () => {
+      const { collateral } = await deployMockCollateral()
+      expect(await collateral.status()).to.equal(CollateralStatus.SOUND)
+      expect(await collateral.whenDefault()).to.equal(ethers.constants.MaxUint256)
+
+      await expect(collateral.refresh()).to.not.emit(collateral, 'CollateralStatusChanged')
+
+      expect(await collateral.status()).to.equal(CollateralStatus.SOUND)
+      expect(await collateral.whenDefault()).to.equal(ethers.constants.MaxUint256)
+    })
+
+    it('recovers from soft-default', async () => {
+      const { collateral, daiFeed } = await deployMockCollateral()
+
+      // Depeg DAI:USD - Reducing price by 20% from 1 to 0.8
+      await daiFeed.updateAnswer(exp(8, 7))
+      await expect(collateral.refresh())
+        .to.emit(collateral, 'CollateralStatusChanged')
+        .withArgs(CollateralStatus.SOUND, CollateralStatus.IFFY)
+      expect(await collateral.status()).to.equal(CollateralStatus.IFFY)
+
+      // DAI:USD peg recovers back to 1:1
+      await daiFeed.updateAnswer(exp(1, 8))
+      await expect(collateral.refresh())
+        .to.emit(collateral, 'CollateralStatusChanged')
+        .withArgs(CollateralStatus.IFFY, CollateralStatus.SOUND)
+      expect(await collateral.status()).to.equal(CollateralStatus.SOUND)
+    })
+
+    for (const token of ['dai', 'usdc', 'usdt'] as const) {
+      it(`soft-defaults when ${token.toUpperCase()} depegs from fiat target beyond threshold`, async () => {
+        const mocks = await deployMockCollateral()
+        const { collateral } = mocks
+        const feed = mocks[`${token}Feed`]
+        const delayUntilDefault = (await collateral.delayUntilDefault()).toBigInt()
+
+        // Depeg - Reducing price by 20% from 1 to 0.8
+        await feed.updateAnswer(exp(8, 7))
+
+        // Set next block timestamp - for deterministic result
+        const nextBlockTimestamp = (await time.latest()) + 1
+        await time.setNextBlockTimestamp(nextBlockTimestamp)
+        const expectedDefaultTimestamp = BigInt(nextBlockTimestamp) + delayUntilDefault
+
+        await expect(collateral.refresh())
+          .to.emit(collateral, 'CollateralStatusChanged')
+          .withArgs(CollateralStatus.SOUND, CollateralStatus.IFFY)
+        expect(await collateral.status()).to.equal(CollateralStatus.IFFY)
+        expect(await collateral.whenDefault()).to.equal(expectedDefaultTimestamp)
+
+        // Move time forward past delayUntilDefault
+        await time.increase(delayUntilDefault)
+        expect(await collateral.status()).to.equal(CollateralStatus.DISABLED)
+
+        // Nothing changes if attempt to refresh after default
+        const prevWhenDefault = (await collateral.whenDefault()).toBigInt()
+        await expect(collateral.refresh()).to.not.emit(collateral, 'CollateralStatusChanged')
+        expect(await collateral.status()).to.equal(CollateralStatus.DISABLED)
+        expect(await collateral.whenDefault()).to.equal(prevWhenDefault)
+      })
+    }
+
+    it('soft-defaults when liquidity pool is unbalanced beyond threshold', async () => {
+      const { collateral, curvePool } = await deployMockCollateral()
+      const delayUntilDefault = (await collateral.delayUntilDefault()).toBigInt()
+
+      // (20k - 5k) / 35k is above the 30% poolRatioThreshold
+      await curvePool.setBalances([exp(20_000, 18), exp(10_000, 6), exp(5_000, 6)])
+
+      const nextBlockTimestamp = (await time.latest()) + 1
+      await time.setNextBlockTimestamp(nextBlockTimestamp)
+      const expectedDefaultTimestamp = BigInt(nextBlockTimestamp) + delayUntilDefault
+
+      await expect(collateral.refresh())
+        .to.emit(collateral, 'CollateralStatusChanged')
+        .withArgs(CollateralStatus.SOUND, CollateralStatus.IFFY)
+      expect(await collateral.status()).to.equal(CollateralStatus.IFFY)
+      expect(await collateral.whenDefault()).to.equal(expectedDefaultTimestamp)
+
+      await time.increase(delayUntilDefault)
+      expect(await collateral.status()).to.equal(CollateralStatus.DISABLED)
+    })
+
+    it('hard-defaults when refPerTok decreases', async () => {
+      const { collateral, curvePool } = await deployMockCollateral()
+
+      await curvePool.setVirtualPrice(exp(1, 18) - 1n)
+
+      await expect(collateral.refresh())
+        .to.emit(collateral, 'CollateralStatusChanged')
+        .withArgs(CollateralStatus.SOUND, CollateralStatus.DISABLED)
+      expect(await collateral.status()).to.equal(CollateralStatus.DISABLED)
+
+      // Recovering the virtual price does not revive the collateral
+      await curvePool.setVirtualPrice(exp(2, 18))
+      await expect(collateral.refresh()).to.not.emit(collateral, 'CollateralStatusChanged')
+      expect(await collateral.status()).to.equal(CollateralStatus.DISABLED)
+    })
+  })
+
+  describe('refPerTok', () => {
+    it('follows the virtual price of the pool through refresh()', async () => {
+      const { collateral, curvePool } = await deployMockCollateral()
+      expect(await collateral.refPerTok()).to.eq(FIX_ONE)
+
+      await curvePool.setVirtualPrice(exp(1022, 15))
+      expect(await collateral.refPerTok()).to.eq(FIX_ONE)
+
+      await collateral.refresh()
+      expect(await collateral.refPerTok()).to.eq(exp(1022, 15))
+      expect(await collateral.prevReferencePrice()).to.eq(exp(1022, 15))
+      expect(await collateral.status()).to.equal(CollateralStatus.SOUND)
+    })
+  })
+
+  describe('rewards', () => {
+    it('claims CRV and CVX rewards', async () => {
+      const { collateral, crv, cvx, rewardPool, cvxRewardPool } = await deployMockCollateral()
+
+      await crv.mint(rewardPool.address, exp(100, 18))
+      await cvx.mint(cvxRewardPool.address, exp(50, 18))
+
+      await expect(collateral.claimRewards())
+        .to.emit(collateral, 'RewardsClaimed')
+        .withArgs(cvx.address, exp(50, 18))
+        .and.to.emit(collateral, 'RewardsClaimed')
+        .withArgs(crv.address, exp(100, 18))
+
+      expect(await crv.balanceOf(collateral.address)).to.eq(exp(100, 18))
+      expect(await cvx.balanceOf(collateral.address)).to.eq(exp(50, 18))
+
+      // Nothing left to claim
+      await expect(collateral.claimRewards())
+        .to.emit(collateral, 'RewardsClaimed')
+        .withArgs(crv.address, 0)
+    })
+
+    it('claims and reports extra rewards', async () => {
+      const { collateral, crv, rewardPool } = await deployMockCollateral()
+      const TokenMockFactory = <TokenMock__factory>await ethers.getContractFactory('TokenMock')
+      const RewardPoolMockFactory = <RewardPoolMock__factory>(
+        await ethers.getContractFactory('RewardPoolMock')
+      )
+      const ldo = await TokenMockFactory.deploy('Lido DAO Token', 'LDO', 18)
+      const fxs = await TokenMockFactory.deploy('Frax Share', 'FXS', 18)
+      for (const token of [ldo, fxs]) {
+        const extraRewardPool = await RewardPoolMockFactory.deploy(token.address)
+        await rewardPool.addExtraReward(extraRewardPool.address)
+        await token.mint(extraRewardPool.address, exp(10, 18))
+      }
+      await crv.mint(rewardPool.address, exp(100, 18))
+
+      // The extra rewards are added to the Convex pool after the wrapper was initialized
+      await expect(collateral.claimRewards())
+        .to.emit(collateral, 'RewardsClaimed')
+        .withArgs(crv.address, exp(100, 18))
+        .and.to.emit(collateral, 'RewardsClaimed')
+        .withArgs(ldo.address, exp(10, 18))
+        .and.to.emit(collateral, 'RewardsClaimed')
+        .withArgs(fxs.address, exp(10, 18))
+
+      expect(await ldo.balanceOf(collateral.address)).to.eq(exp(10, 18))
+      expect(await fxs.balanceOf(collateral.address)).to.eq(exp(10, 18))
+    })
+  })
+})
@@ -0,0 +1,224 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { time } from '@nomicfoundation/hardhat-network-helpers'
+import { BoundedAggregatorMock__factory, MockV3Aggregator__factory } from '../typechain-types'
+import { deployMockRangeCollateral, makeCollateralMocks } from './fixtures'
+import { exp, CollateralStatus, FIX_ONE, ORACLE_TIMEOUT, PRICE_TIMEOUT } from './helpers'
+
+const FIX_MAX = 2n ** 192n - 1n
+const VIRTUAL_PRICE_MIN = 1
+
+// FeedOperation of PoolTokens
+const MULTIPLY = 0
+const DIVIDE = 1
+
+describe('CvxCurveStableLPRangeCollateral with mocks', () => {
+  describe('constructor validation', () => {
+    it('needs an oracleError for each price feed', async () => {
+      await expect(
+        deployMockRangeCollateral({}, { oracleErrors: [[exp(5, 15)], [exp(5, 15)]] })
+      ).to.be.revertedWith('each price feed needs an oracleError')
+      await expect(
+        deployMockRangeCollateral({}, { oracleErrors: [[exp(5, 15)], [], [exp(5, 15)]] })
+      ).to.be.revertedWith('each price feed needs an oracleError')
+    })
+
+    it('needs oracleErrors below 1', async () => {
+      await expect(
+        deployMockRangeCollateral({}, { oracleErrors: [[exp(5, 15)], [FIX_ONE], [exp(5, 15)]] })
+      ).to.be.revertedWith('invalid oracleError')
+    })
+
+    it('needs a priceTimeout', async () => {
+      await expect(deployMockRangeCollateral({}, { priceTimeout: 0n })).to.be.revertedWith(
+        'priceTimeout zero'
+      )
+    })
+  })
+
+  describe('price', () => {
+    it('spans the oracleError of the feeds', async () => {
+      const { collateral } = await deployMockRangeCollateral(
+        {},
+        { oracleErrors: [[exp(1, 16)], [exp(1, 16)], [exp(1, 16)]] }
+      )
+
+      expect(await collateral.getTokenFeedError(1, 0)).to.eq(exp(1, 16))
+      expect(await collateral.tokenPriceRange(1)).to.deep.equal(
+        [exp(99, 16), exp(101, 16)].map(ethers.BigNumber.from)
+      )
+      // $30k of coins backing 30k LP tokens, give or take 1%
+      expect(await collateral['price()']()).to.deep.equal(
+        [exp(99, 16), exp(101, 16)].map(ethers.BigNumber.from)
+      )
+    })
+
+    it('compounds the oracleErrors of chained feeds', async () => {
+      const mocks = await makeCollateralMocks()
+      const MockV3AggregatorFactory = <MockV3Aggregator__factory>(
+        await ethers.getContractFactory('MockV3Aggregator')
+      )
+      const usdtEthFeed = await MockV3AggregatorFactory.deploy(8, exp(5, 4))
+      const ethUsdFeed = await MockV3AggregatorFactory.deploy(8, exp(2000, 8))
+      const { collateral } = await deployMockRangeCollateral(
+        {
+          tokensPriceFeeds: [
+            [mocks.daiFeed.address],
+            [mocks.usdcFeed.address],
+            [usdtEthFeed.address, ethUsdFeed.address],
+          ],
+        },
+        { oracleErrors: [[exp(1, 16)], [exp(1, 16)], [exp(1, 16), exp(2, 16)]] },
+        mocks
+      )
+
+      expect(await collateral.getTokenFeedError(2, 1)).to.eq(exp(2, 16))
+      await expect(collateral.getTokenFeedError(2, 2))
+        .to.be.revertedWithCustomError(collateral, 'WrongIndex')
+        .withArgs(1)
+      expect(await collateral.tokenPriceRange(2)).to.deep.equal(
+        [exp(99 * 98, 14), exp(101 * 102, 14)].map(ethers.BigNumber.from)
+      )
+    })
+
+    it('inverts the oracleErrors of divided feeds', async () => {
+      const mocks = await makeCollateralMocks()
+      const MockV3AggregatorFactory = <MockV3Aggregator__factory>(
+        await ethers.getContractFactory('MockV3Aggregator')
+      )
+      // USDT / ETH divided by USD / ETH
+      const usdtEthFeed = await MockV3AggregatorFactory.deploy(8, exp(5, 4))
+      const usdEthFeed = await MockV3AggregatorFactory.deploy(8, exp(5, 4))
+      const { collateral } = await deployMockRangeCollateral(
+        {
+          tokensPriceFeeds: [
+            [mocks.daiFeed.address],
+            [mocks.usdcFeed.address],
+            [usdtEthFeed.address, usdEthFeed.address],
+          ],
+          feedOperations: [[MULTIPLY], [MULTIPLY], [MULTIPLY, DIVIDE]],
+        },
+        { oracleErrors: [[exp(1, 16)], [exp(1, 16)], [exp(1, 16), exp(2, 16)]] },
+        mocks
+      )
+
+      expect(await collateral.tokenPrice(2)).to.eq(FIX_ONE)
+      const [low, high] = await collateral.tokenPriceRange(2)
+      expect(low).to.be.closeTo(exp(99, 18) / 102n, 1)
+      expect(high).to.be.closeTo(exp(101, 18) / 98n, 1)
+    })
+
+    it('prices the range through the virtual price', async () => {
+      const { collateral, curvePool, usdtFeed } = await deployMockRangeCollateral({
+        pricingMode: VIRTUAL_PRICE_MIN,
+      })
+      await curvePool.setVirtualPrice(exp(11, 17))
+      await usdtFeed.updateAnswer(exp(99, 6))
+
+      // 1.1 * 0.99 * (1 -/+ 0.5%)
+      expect(await collateral['price()']()).to.deep.equal(
+        [exp(1089 * 995, 12), exp(1089 * 1005, 12)].map(ethers.BigNumber.from)
+      )
+    })
+
+    it('is unpriced while a feed fails', async () => {
+      const { collateral, usdcFeed } = await deployMockRangeCollateral()
+      await usdcFeed.updateAnswer(0)
+
+      await expect(collateral.tryPrice()).to.be.revertedWithCustomError(
+        collateral,
+        'PriceOutsideRange'
+      )
+      expect(await collateral['price()']()).to.deep.equal([0n, FIX_MAX].map(ethers.BigNumber.from))
+    })
+
+    it('is unpriced while a feed is pinned at a bound', async () => {
+      const mocks = await makeCollateralMocks()
+      const BoundedAggregatorMockFactory = <BoundedAggregatorMock__factory>(
+        await ethers.getContractFactory('BoundedAggregatorMock')
+      )
+      const usdcFeed = await BoundedAggregatorMockFactory.deploy(8, exp(1, 8), exp(1, 7), exp(2, 8))
+      const { collateral } = await deployMockRangeCollateral(
+        {
+          tokensPriceFeeds: [[mocks.daiFeed.address], [usdcFeed.address], [mocks.usdtFeed.address]],
+        },
+        {},
+        mocks
+      )
+
+      await usdcFeed.updateAnswer(0)
+      await expect(collateral.tokenPriceRange(1))
+        .to.be.revertedWithCustomError(collateral, 'PriceAtBound')
+        .withArgs(usdcFeed.address)
+      expect(await collateral['price()']()).to.deep.equal([0n, FIX_MAX].map(ethers.BigNumber.from))
+    })
+
+    it('is unpriced while the L2 sequencer is down', async () => {
+      const MockV3AggregatorFactory = <MockV3Aggregator__factory>(
+        await ethers.getContractFactory('MockV3Aggregator')
+      )
+      const uptimeFeed = await MockV3AggregatorFactory.deploy(0, 1)
+      const { collateral } = await deployMockRangeCollateral({
+        sequencerUptimeFeed: uptimeFeed.address,
+        sequencerGracePeriod: 3600n,
+      })
+
+      await expect(collateral.tryPrice()).to.be.revertedWithCustomError(collateral, 'SequencerDown')
+      expect(await collateral['price()']()).to.deep.equal([0n, FIX_MAX].map(ethers.BigNumber.from))
+    })
+  })
+
+  describe('lotPrice', () => {
+    it('is the price while the feeds work', async () => {
+      const { collateral } = await deployMockRangeCollateral()
+
+      expect(await collateral.lotPrice()).to.deep.equal(await collateral['price()']())
+    })
+
+    it('decays the saved price once the feeds fail', async () => {
+      const { collateral, usdtFeed } = await deployMockRangeCollateral()
+      await collateral.refresh()
+      const saved = await collateral['price()']()
+      expect(await collateral.savedLowPrice()).to.eq(saved[0])
+      expect(await collateral.savedHighPrice()).to.eq(saved[1])
+
+      // The saved price is used as is until oracleTimeout
+      await usdtFeed.updateAnswer(0)
+      await time.increaseTo((await collateral.lastSave()) + Number(ORACLE_TIMEOUT))
+      expect(await collateral.lotPrice()).to.deep.equal(saved)
+
+      // Halfway through priceTimeout
+      await time.increaseTo(
+        (await collateral.lastSave()) + Number(ORACLE_TIMEOUT + PRICE_TIMEOUT / 2n)
+      )
+      expect(await collateral.lotPrice()).to.deep.equal(saved.map((p) => p.div(2)))
+
+      await time.increaseTo((await collateral.lastSave()) + Number(ORACLE_TIMEOUT + PRICE_TIMEOUT))
+      expect(await collateral.lotPrice()).to.deep.equal([0n, 0n].map(ethers.BigNumber.from))
+    })
+  })
+
+  describe('refresh', () => {
+    it('keeps the last saved price while a feed fails', async () => {
+      const { collateral, usdtFeed } = await deployMockRangeCollateral()
+      await collateral.refresh()
+      const lastSave = await collateral.lastSave()
+      const savedLowPrice = await collateral.savedLowPrice()
+
+      await usdtFeed.updateAnswer(0)
+      await collateral.refresh()
+      expect(await collateral.status()).to.equal(CollateralStatus.IFFY)
+      expect(await collateral.lastSave()).to.eq(lastSave)
+      expect(await collateral.savedLowPrice()).to.eq(savedLowPrice)
+    })
+
+    it('soft-defaults on a depeg like CvxCurveStableLPCollateral', async () => {
+      const { collateral, daiFeed } = await deployMockRangeCollateral()
+      await daiFeed.updateAnswer(exp(8, 7))
+
+      await collateral.refresh()
+      expect(await collateral.status()).to.equal(CollateralStatus.IFFY)
+      expect(await collateral.savedHighPrice()).to.be.lt(FIX_ONE)
+    })
+  })
+})
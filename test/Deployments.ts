@@ -0,0 +1,97 @@
+import { expect } from 'chai'
+import fs from 'fs'
+import { ethers, network } from 'hardhat'
+import { TokenMock, TokenMock__factory } from '../typechain-types'
+import { manifestPath, resumableDeployment, saveManifest } from '../scripts/deployments'
+
+describe('resumableDeployment', () => {
+  const file = manifestPath(network.name)
+  let backup: string | undefined
+
+  before(() => {
+    backup = fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : undefined
+  })
+
+  beforeEach(() => {
+    if (fs.existsSync(file)) fs.rmSync(file)
+  })
+
+  after(() => {
+    if (backup !== undefined) {
+      fs.writeFileSync(file, backup)
+    } else if (fs.existsSync(file)) {
+      fs.rmSync(file)
+    }
+  })
+
+  // Deploys A, B with `bDecimals` and C, mints B to C and records which of the four steps ran
+  const runSteps = async (bDecimals = 18) => {
+    const TokenMockFactory = <TokenMock__factory>await ethers.getContractFactory('TokenMock')
+    const { manifest, deploy, send } = await resumableDeployment()
+    const ran: string[] = []
+
+    const deployToken = (name: string, decimals = 18) =>
+      deploy(name, [name, name, decimals], async () => {
+        ran.push(name)
+        return TokenMockFactory.deploy(name, name, decimals)
+      })
+
+    await deployToken('A')
+    const b = await deployToken('B', bDecimals)
+    const c = await deployToken('C')
+    await send(
+      'B.mint',
+      [c, 1n],
+      async () => {
+        ran.push('B.mint')
+        const token = <TokenMock>await ethers.getContractAt('TokenMock', b)
+        return token.mint(c, 1n)
+      },
+      ['B', 'C']
+    )
+    expect(await (<TokenMock>await ethers.getContractAt('TokenMock', b)).balanceOf(c)).to.equal(1n)
+
+    return { manifest, ran }
+  }
+
+  it('runs every step the first time and none the second', async () => {
+    expect((await runSteps()).ran).to.eql(['A', 'B', 'C', 'B.mint'])
+    expect((await runSteps()).ran).to.eql([])
+  })
+
+  it('only runs again the middle step removed from the manifest', async () => {
+    const { manifest } = await runSteps()
+    const { A, B, C } = manifest.steps
+    delete manifest.steps.C
+    saveManifest(manifest)
+
+    // B.mint depends on C, so it runs again with the new C
+    const { manifest: resumed, ran } = await runSteps()
+    expect(ran).to.eql(['C', 'B.mint'])
+    expect(resumed.steps.A).to.eql(A)
+    expect(resumed.steps.B).to.eql(B)
+    expect(resumed.steps.C.address).to.not.equal(C.address)
+  })
+
+  it('keeps later steps that do not depend on the removed one', async () => {
+    const { manifest } = await runSteps()
+    const mintTx = manifest.steps['B.mint'].txHash
+    delete manifest.steps.A
+    saveManifest(manifest)
+
+    const { manifest: resumed, ran } = await runSteps()
+    expect(ran).to.eql(['A'])
+    expect(resumed.steps['B.mint'].txHash).to.equal(mintTx)
+  })
+
+  it('runs a step again when its args change', async () => {
+    const { manifest } = await runSteps()
+    const { A, C } = manifest.steps
+
+    const { manifest: resumed, ran } = await runSteps(6)
+    expect(ran).to.eql(['B', 'B.mint'])
+    expect(resumed.steps.B.args).to.eql(['B', 'B', 6])
+    expect(resumed.steps.A).to.eql(A)
+    expect(resumed.steps.C).to.eql(C)
+  })
+})
@@ -0,0 +1,115 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { setCode, time } from '@nomicfoundation/hardhat-network-helpers'
+import { MockV3Aggregator__factory } from '../typechain-types'
+import { deployMockCollateral } from './fixtures'
+import { exp, CollateralStatus, FIX_ONE } from './helpers'
+import { explainHealthReport, readHealthReport } from '../scripts/healthReport'
+
+describe('healthReport', () => {
+  it('reports no default conditions in normal situations', async () => {
+    const { collateral } = await deployMockCollateral()
+    const report = await readHealthReport(collateral)
+
+    expect(report.status).to.equal('SOUND')
+    expect(report.peg).to.equal(FIX_ONE)
+    expect(report.tokens.map((t) => t.price)).to.deep.equal([FIX_ONE, FIX_ONE, FIX_ONE])
+    expect(report.tokens.map((t) => t.deviation)).to.deep.equal([0n, 0n, 0n])
+    expect(report.poolRatio).to.equal(0n)
+    expect(report.projectedWhenDefault).to.be.undefined
+    expect(explainHealthReport(report)).to.be.empty
+  })
+
+  it('identifies the token that depegs', async () => {
+    const { collateral, usdcFeed } = await deployMockCollateral()
+    const delayUntilDefault = (await collateral.delayUntilDefault()).toNumber()
+
+    // USDC at 0.9 is 10% off the peg
+    await usdcFeed.updateAnswer(exp(9, 7))
+    const report = await readHealthReport(collateral)
+
+    expect(report.tokens[1].price).to.equal(exp(9, 17))
+    expect(report.tokens[1].deviation).to.equal(exp(1, 17))
+    expect(report.tokens.map((t) => t.pegNotMaintained)).to.deep.equal([false, true, false])
+    expect(report.projectedWhenDefault).to.equal((await time.latest()) + delayUntilDefault)
+    expect(explainHealthReport(report)).to.deep.equal(['token 1 price 0.9 is 10.0% off the peg'])
+  })
+
+  it('reports reverting feeds', async () => {
+    const { collateral, daiFeed } = await deployMockCollateral()
+    await daiFeed.setInvalidTimestamp()
+
+    const report = await readHealthReport(collateral)
+    expect(report.tokens[0].feedReverted).to.be.true
+    expect(report.tokens[0].price).to.be.undefined
+    expect(report.tokens[1].feedReverted).to.be.false
+    expect(explainHealthReport(report)).to.deep.equal(['token 0 price feed reverted'])
+  })
+
+  it('reports the pool imbalance', async () => {
+    const { collateral, curvePool } = await deployMockCollateral()
+
+    // (20k - 5k) / 35k is above the 30% poolRatioThreshold
+    await curvePool.setBalances([exp(20_000, 18), exp(10_000, 6), exp(5_000, 6)])
+    const report = await readHealthReport(collateral)
+
+    expect(report.unbalanced).to.be.true
+    expect(report.poolRatio).to.equal((exp(15_000, 18) * FIX_ONE) / exp(35_000, 18))
+    expect(report.poolRatioThreshold).to.equal(exp(3, 17))
+    expect(explainHealthReport(report)).to.have.lengthOf(1)
+  })
+
+  it('reports a decreasing virtual price', async () => {
+    const { collateral, curvePool } = await deployMockCollateral()
+    await curvePool.setVirtualPrice(exp(1, 18) - 1n)
+
+    // refPerTok() only follows the virtual price down on the hard default of refresh()
+    const report = await readHealthReport(collateral)
+    expect(report.referencePriceDecreased).to.be.true
+    expect(report.actualRefPerTok).to.equal(exp(1, 18) - 1n)
+    expect(report.refPerTok).to.equal(FIX_ONE)
+    expect(report.prevReferencePrice).to.equal(FIX_ONE)
+    expect(report.projectedWhenDefault).to.equal(await time.latest())
+
+    await collateral.refresh()
+    const disabled = await readHealthReport(collateral)
+    expect(disabled.status).to.equal('DISABLED')
+    expect(disabled.refPerTok).to.equal(exp(1, 18) - 1n)
+    expect(disabled.referencePriceDecreased).to.be.false
+    expect(disabled.projectedWhenDefault).to.equal(disabled.whenDefault)
+  })
+
+  it('reports a reverting shutdown check', async () => {
+    const { collateral, booster } = await deployMockCollateral()
+    await setCode(booster.address, '0x')
+
+    const report = await readHealthReport(collateral)
+    expect(report.shutDown).to.be.undefined
+    expect(report.projectedWhenDefault).to.equal(report.whenDefault)
+    expect(explainHealthReport(report)).to.deep.equal(['pool shutdown check reverted'])
+    await expect(collateral.refresh()).to.be.reverted
+  })
+
+  it('checks the shutdown before the peg like refresh()', async () => {
+    const MockV3AggregatorFactory = <MockV3Aggregator__factory>(
+      await ethers.getContractFactory('MockV3Aggregator')
+    )
+    const pegFeed = await MockV3AggregatorFactory.deploy(8, exp(1, 8))
+    const { collateral, booster } = await deployMockCollateral({
+      targetPegFeed: pegFeed.address,
+      shutdownStatus: CollateralStatus.DISABLED,
+    })
+
+    // refresh() reverts on the peg read and keeps whenDefault
+    await pegFeed.setInvalidTimestamp()
+    expect((await readHealthReport(collateral)).projectedWhenDefault).to.be.undefined
+    await expect(collateral.refresh()).to.be.reverted
+
+    // It disables the collateral on shutdown before reading the peg
+    await booster.shutdownPool(0)
+    expect((await readHealthReport(collateral)).projectedWhenDefault).to.equal(await time.latest())
+    await expect(collateral.refresh())
+      .to.emit(collateral, 'CollateralStatusChanged')
+      .withArgs(CollateralStatus.SOUND, CollateralStatus.DISABLED)
+  })
+})
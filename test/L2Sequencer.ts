@@ -0,0 +1,89 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { time } from '@nomicfoundation/hardhat-network-helpers'
+import { MockV3Aggregator__factory } from '../typechain-types'
+import { deployMockCollateral, makeCollateralMocks } from './fixtures'
+import { exp, CollateralStatus, FIX_ONE } from './helpers'
+import { readHealthReport } from '../scripts/healthReport'
+
+describe('L2 sequencer', () => {
+  const GRACE_PERIOD = 3600n
+  const UP = 0
+  const DOWN = 1
+
+  // Deploys a collateral with an ETH peg on an L2 whose sequencer has been up for longer than
+  // the grace period
+  const deployOnL2 = async () => {
+    const mocks = await makeCollateralMocks()
+    const MockV3AggregatorFactory = <MockV3Aggregator__factory>(
+      await ethers.getContractFactory('MockV3Aggregator')
+    )
+    const uptimeFeed = await MockV3AggregatorFactory.deploy(0, UP)
+    const ethFeed = await MockV3AggregatorFactory.deploy(8, exp(1, 8))
+    const { collateral } = await deployMockCollateral(
+      {
+        targetPegFeed: ethFeed.address,
+        sequencerUptimeFeed: uptimeFeed.address,
+        sequencerGracePeriod: GRACE_PERIOD,
+      },
+      mocks
+    )
+    await time.increase(GRACE_PERIOD)
+    return { ...mocks, collateral, uptimeFeed }
+  }
+
+  it('prices normally while the sequencer is up', async () => {
+    const { collateral, uptimeFeed } = await deployOnL2()
+
+    expect(await collateral.sequencerUptimeFeed()).to.equal(uptimeFeed.address)
+    expect(await collateral.sequencerGracePeriod()).to.equal(GRACE_PERIOD)
+    expect(await collateral.tokenPrice(0)).to.equal(FIX_ONE)
+    expect(await collateral.getPeg()).to.equal(FIX_ONE)
+    expect(await collateral.price(false)).to.deep.equal([false, ethers.BigNumber.from(FIX_ONE)])
+  })
+
+  it('soft-defaults while the sequencer is down', async () => {
+    const { collateral, uptimeFeed } = await deployOnL2()
+
+    await uptimeFeed.updateAnswer(DOWN)
+    await expect(collateral.tokenPrice(0)).to.be.revertedWithCustomError(
+      collateral,
+      'SequencerDown'
+    )
+    await expect(collateral.getPeg()).to.be.revertedWithCustomError(collateral, 'SequencerDown')
+    expect(await collateral.price(true)).to.deep.equal([true, ethers.BigNumber.from(FIX_ONE)])
+
+    await expect(collateral.refresh())
+      .to.emit(collateral, 'CollateralStatusChanged')
+      .withArgs(CollateralStatus.SOUND, CollateralStatus.IFFY)
+    expect((await readHealthReport(collateral)).tokens[0].feedReverted).to.be.true
+  })
+
+  it('waits for the grace period after a restart', async () => {
+    const { collateral, uptimeFeed } = await deployOnL2()
+
+    await uptimeFeed.updateAnswer(DOWN)
+    await collateral.refresh()
+    await uptimeFeed.updateAnswer(UP)
+    await expect(collateral.tokenPrice(0)).to.be.revertedWithCustomError(
+      collateral,
+      'GracePeriodNotOver'
+    )
+    await collateral.refresh()
+    expect(await collateral.status()).to.equal(CollateralStatus.IFFY)
+
+    await time.increase(GRACE_PERIOD)
+    await collateral.refresh()
+    expect(await collateral.status()).to.equal(CollateralStatus.SOUND)
+  })
+
+  it('treats an uninitialized uptime feed as down', async () => {
+    const { collateral, uptimeFeed } = await deployOnL2()
+
+    await uptimeFeed.setInvalidTimestamp()
+    await expect(collateral.tokenPrice(0)).to.be.revertedWithCustomError(
+      collateral,
+      'SequencerDown'
+    )
+  })
+})
@@ -0,0 +1,94 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { deployMockCollateral, makePool } from './fixtures'
+import { exp, CollateralStatus, FIX_ONE } from './helpers'
+
+// CurvePoolType of PoolTokens
+const LENDING = 1
+
+// WrappedRate of PoolTokens
+const COMPOUND_RATE = 1
+const YEARN_RATE = 2
+
+// Lending pool mocks hold tokens wrapping the 3Pool mock coins
+const UNDERLYING = { type: LENDING, coins: ['DAI', 'USDC', 'USDT'], decimals: [18, 6, 6] }
+
+describe('Lending pools', () => {
+  it('converts cToken balances with the exchange rate', async () => {
+    // 0.02 underlying per cToken, scaled by 1e(18 - 8 + underlying decimals)
+    const pool = await makePool({
+      ...UNDERLYING,
+      wrapped: { decimals: [8, 8, 8], rates: [exp(2, 26), exp(2, 14), exp(2, 14)] },
+      balances: [exp(500_000, 8), exp(500_000, 8), exp(500_000, 8)],
+    })
+    const { collateral } = await deployMockCollateral(
+      { ...pool.opts, wrappedRates: [COMPOUND_RATE, COMPOUND_RATE, COMPOUND_RATE] },
+      pool
+    )
+
+    expect(await collateral.getBalances()).to.deep.equal(
+      [exp(10_000, 18), exp(10_000, 18), exp(10_000, 18)].map(ethers.BigNumber.from)
+    )
+    expect(await collateral.totalBalancesValue()).to.eq(exp(30_000, 18))
+    expect(await collateral.strictPrice()).to.eq(FIX_ONE)
+
+    // Interest accrues on cDAI
+    await pool.wrapped[0].setRate(exp(5, 26))
+    expect(await collateral.totalBalancesValue()).to.eq(exp(45_000, 18))
+    expect(await collateral.strictPrice()).to.eq(exp(15, 17))
+  })
+
+  it('converts yToken balances with the price per share', async () => {
+    const pool = await makePool({
+      ...UNDERLYING,
+      wrapped: { decimals: [18, 6, 6], rates: [exp(11, 17), exp(11, 17), exp(11, 17)] },
+      balances: [exp(10_000, 18), exp(10_000, 6), exp(10_000, 6)],
+    })
+    const { collateral } = await deployMockCollateral(
+      { ...pool.opts, wrappedRates: [YEARN_RATE, YEARN_RATE, YEARN_RATE] },
+      pool
+    )
+
+    expect(await collateral.totalBalancesValue()).to.eq(exp(33_000, 18))
+    expect(await collateral.strictPrice()).to.eq(exp(11, 17))
+  })
+
+  it('reads aToken balances 1:1 without wrapped rates', async () => {
+    const pool = await makePool({
+      ...UNDERLYING,
+      wrapped: { decimals: [18, 6, 6], rates: [FIX_ONE, FIX_ONE, FIX_ONE] },
+      balances: [exp(10_000, 18), exp(10_000, 6), exp(10_000, 6)],
+    })
+    const { collateral } = await deployMockCollateral(pool.opts, pool)
+
+    expect(await collateral.totalBalancesValue()).to.eq(exp(30_000, 18))
+    expect(await collateral.strictPrice()).to.eq(FIX_ONE)
+  })
+
+  it('checks the pool balance in underlying tokens', async () => {
+    const pool = await makePool({
+      ...UNDERLYING,
+      wrapped: { decimals: [8, 8, 8], rates: [exp(2, 26), exp(2, 14), exp(2, 14)] },
+      balances: [exp(500_000, 8), exp(500_000, 8), exp(500_000, 8)],
+    })
+    const { collateral } = await deployMockCollateral(
+      { ...pool.opts, wrappedRates: [COMPOUND_RATE, COMPOUND_RATE, COMPOUND_RATE] },
+      pool
+    )
+
+    // (30k - 10k) / 50k DAI, USDC and USDT is above the 30% poolRatioThreshold
+    await pool.wrapped[0].setRate(exp(6, 26))
+    await collateral.refresh()
+    expect(await collateral.status()).to.equal(CollateralStatus.IFFY)
+  })
+
+  it('only takes wrapped rates for Lending pools', async () => {
+    const rates = [COMPOUND_RATE, COMPOUND_RATE, COMPOUND_RATE]
+    await expect(deployMockCollateral({ poolType: 0, wrappedRates: rates })).to.be.revertedWith(
+      'wrapped rates need a Lending pool and 1 rate for each token'
+    )
+    await expect(
+      deployMockCollateral({ poolType: LENDING, wrappedRates: [COMPOUND_RATE] })
+    ).to.be.revertedWith('wrapped rates need a Lending pool and 1 rate for each token')
+  })
+})
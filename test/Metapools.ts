@@ -0,0 +1,70 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { deployMockCollateral, makePool } from './fixtures'
+import { exp, CollateralStatus, FIX_ONE } from './helpers'
+
+// CurvePoolType of PoolTokens
+const METAPOOL = 2
+
+// Pairs GUSD (2 decimals) with the 3Pool mock as the base pool, 10k GUSD and 10k 3Crv by default
+const GUSD = { type: METAPOOL, coins: ['GUSD'], decimals: [2] }
+
+describe('Metapools', () => {
+  it('values the paired coin and the base pool LP token', async () => {
+    // 10k GUSD and 10k 3Crv worth 11k in the base pool's coins
+    const pool = await makePool(GUSD)
+    const { collateral } = await deployMockCollateral(pool.opts, pool)
+    await pool.basePool.setVirtualPrice(exp(11, 17))
+
+    expect(await collateral.getBalances()).to.deep.equal(
+      [exp(10_000, 18), exp(11_000, 18)].map(ethers.BigNumber.from)
+    )
+    expect(await collateral.totalBalancesValue()).to.eq(exp(21_000, 18))
+    expect(await collateral.strictPrice()).to.eq(FIX_ONE)
+  })
+
+  it('prices the base pool LP token at its cheapest coin', async () => {
+    const pool = await makePool(GUSD)
+    const { collateral } = await deployMockCollateral(pool.opts, pool)
+
+    await pool.feeds.dai.updateAnswer(exp(101, 6))
+    await pool.feeds.usdt.updateAnswer(exp(98, 6))
+    expect(await collateral.totalBalancesValue()).to.eq(exp(10_000, 18) + exp(9_800, 18))
+  })
+
+  for (const token of ['gusd', 'dai', 'usdc', 'usdt']) {
+    it(`soft-defaults when ${token.toUpperCase()} depegs`, async () => {
+      const pool = await makePool(GUSD)
+      const { collateral } = await deployMockCollateral(pool.opts, pool)
+      await collateral.refresh()
+      expect(await collateral.status()).to.equal(CollateralStatus.SOUND)
+
+      await pool.feeds[token].updateAnswer(exp(8, 7))
+      await collateral.refresh()
+      expect(await collateral.status()).to.equal(CollateralStatus.IFFY)
+    })
+  }
+
+  it('checks the balance between the paired coin and the base pool LP token', async () => {
+    // (30k - 10k) / 40k is above the 30% poolRatioThreshold
+    const pool = await makePool({ ...GUSD, balances: [exp(30_000, 2), exp(10_000, 18)] })
+    const { collateral } = await deployMockCollateral(pool.opts, pool)
+    await collateral.refresh()
+    expect(await collateral.status()).to.equal(CollateralStatus.IFFY)
+  })
+
+  it('needs a base pool and base coins', async () => {
+    const pool = await makePool(GUSD)
+    await expect(
+      deployMockCollateral(
+        { ...pool.opts, nTokens: 1, tokensPriceFeeds: [[pool.feeds.gusd.address]] },
+        pool
+      )
+    ).to.be.revertedWith('metapools need the paired coin and base coins')
+
+    await pool.curvePool.setBasePool(ethers.constants.AddressZero)
+    await expect(deployMockCollateral(pool.opts, pool)).to.be.revertedWith(
+      'basePool address is zero'
+    )
+  })
+})
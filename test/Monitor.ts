@@ -0,0 +1,95 @@
+import { expect } from 'chai'
+import { setCode, time } from '@nomicfoundation/hardhat-network-helpers'
+import { deployMockCollateral } from './fixtures'
+import { exp, FIX_ONE } from './helpers'
+import { formatTable, HealthLevel, readHealth } from '../scripts/monitor'
+
+// Reports values from 80% of their threshold as WARN
+const WARN_AT = exp(8, 17)
+
+describe('monitor', () => {
+  it('reads the pool balances', async () => {
+    const { collateral, curvePool } = await deployMockCollateral()
+    await curvePool.setBalances([exp(12_000, 18), exp(10_000, 6), exp(8_000, 6)])
+
+    const health = await readHealth(collateral, WARN_AT)
+    expect(health.balances).to.deep.equal([exp(12_000, 18), exp(10_000, 18), exp(8_000, 18)])
+    expect(formatTable(health)).to.contain('balances 12000.00, 10000.00, 8000.00')
+  })
+
+  // The 5% default threshold warns from a deviation of 4%
+  for (const [answer, level] of [
+    [exp(9601, 4), HealthLevel.OK],
+    [exp(9599, 4), HealthLevel.WARN],
+    [exp(9501, 4), HealthLevel.WARN],
+    [exp(9499, 4), HealthLevel.ALERT],
+  ] as const) {
+    it(`reports a token at ${Number(answer) / 1e8} as ${level}`, async () => {
+      const { collateral, daiFeed } = await deployMockCollateral()
+      await daiFeed.updateAnswer(answer)
+
+      const health = await readHealth(collateral, WARN_AT)
+      expect(health.tokens.map((t) => t.level)).to.deep.equal([
+        level,
+        HealthLevel.OK,
+        HealthLevel.OK,
+      ])
+      expect(health.poolLevel).to.equal(HealthLevel.OK)
+      expect(health.level).to.equal(level)
+    })
+  }
+
+  // The 30% poolRatioThreshold warns from a ratio of 24%. Moving `shift` coins from USDT to DAI
+  // spreads the 30k pool by 2 * shift.
+  for (const [shift, level] of [
+    [3599, HealthLevel.OK],
+    [3601, HealthLevel.WARN],
+    [4499, HealthLevel.WARN],
+    [4501, HealthLevel.ALERT],
+  ] as const) {
+    it(`reports a pool spread by ${2 * shift} as ${level}`, async () => {
+      const { collateral, curvePool } = await deployMockCollateral()
+      await curvePool.setBalances([exp(10_000 + shift, 18), exp(10_000, 6), exp(10_000 - shift, 6)])
+
+      const health = await readHealth(collateral, WARN_AT)
+      expect(health.poolRatio).to.be.closeTo((exp(2 * shift, 18) * FIX_ONE) / exp(30_000, 18), 1)
+      expect(health.poolLevel).to.equal(level)
+      expect(health.tokens.map((t) => t.level)).to.deep.equal([
+        HealthLevel.OK,
+        HealthLevel.OK,
+        HealthLevel.OK,
+      ])
+      expect(health.level).to.equal(level)
+    })
+  }
+
+  it('reports a reverting shutdown check instead of failing the reading', async () => {
+    const { collateral, booster } = await deployMockCollateral()
+    await setCode(booster.address, '0x')
+
+    const health = await readHealth(collateral, WARN_AT)
+    expect(health.shutDown).to.be.undefined
+    expect(health.tokens.map((t) => t.level)).to.deep.equal([
+      HealthLevel.OK,
+      HealthLevel.OK,
+      HealthLevel.OK,
+    ])
+    expect(health.level).to.equal(HealthLevel.ALERT)
+    expect(formatTable(health)).to.contain('shutdown check reverted')
+  })
+
+  it('takes the deviation from the smoothed price like refresh()', async () => {
+    const halfLife = 3600n
+    const { collateral, daiFeed } = await deployMockCollateral({ pegHalfLife: halfLife })
+    const start = await collateral.lastSmoothed()
+
+    // DAI at 0.9 is halfway smoothed to 0.95 after a half-life, 5% off the peg
+    await daiFeed.updateAnswer(exp(9, 7))
+    await time.increaseTo(start + Number(halfLife))
+    const health = await readHealth(collateral, WARN_AT)
+    expect(health.tokens[0].price).to.equal(exp(9, 17))
+    expect(health.tokens[0].smoothedPrice).to.equal(exp(95, 16))
+    expect(health.tokens[0].deviation).to.equal(exp(5, 16))
+    expect(health.tokens[0].level).to.equal(HealthLevel.WARN)
+  })
+})
@@ -0,0 +1,118 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { deployMockCollateral, makePool } from './fixtures'
+import { exp, CollateralStatus, FIX_ONE } from './helpers'
+import { readHealthReport } from '../scripts/healthReport'
+
+// Deploys a collateral with an ETH target on a mock of the Curve stETH pool, which holds native
+// ETH. The pool holds 15k of each coin against the 30k LP tokens of the mocks, so an LP token is
+// worth 1 ETH, at 1200 USD.
+const deployEthPool = async () => {
+  const pool = await makePool({
+    coins: ['ETH', 'stETH'],
+    decimals: [18, 18],
+    balances: [exp(15_000, 18), exp(15_000, 18)],
+    answers: { eth: exp(1200, 8), steth: exp(1200, 8) },
+  })
+  const { collateral } = await deployMockCollateral(
+    {
+      ...pool.opts,
+      targetPegFeed: pool.feeds.eth.address,
+      targetName: ethers.utils.formatBytes32String('ETH'),
+      fallbackPrice: exp(1200, 18),
+    },
+    pool
+  )
+  return { ...pool, collateral }
+}
+
+// Deploys a collateral with a BTC target on a pool mock of WBTC (8 decimals), priced through
+// WBTC/BTC and BTC/USD feeds, and sBTC (18 decimals). Like the stETH pool, an LP token is worth
+// 1 BTC, at 20k USD.
+const deployBtcPool = async () => {
+  const pool = await makePool({
+    coins: ['WBTC', 'sBTC'],
+    decimals: [8, 18],
+    balances: [exp(15_000, 8), exp(15_000, 18)],
+    feeds: [['wbtc', 'btc'], ['btc']],
+    answers: { btc: exp(20_000, 8) },
+  })
+  const { collateral } = await deployMockCollateral(
+    {
+      ...pool.opts,
+      targetPegFeed: pool.feeds.btc.address,
+      targetName: ethers.utils.formatBytes32String('BTC'),
+      fallbackPrice: exp(20_000, 18),
+    },
+    pool
+  )
+  return { ...pool, collateral }
+}
+
+describe('non-USD targets', () => {
+  it('prices an ETH pool in USD', async () => {
+    const { collateral } = await deployEthPool()
+
+    expect(await collateral.targetName()).to.equal(ethers.utils.formatBytes32String('ETH'))
+    expect(await collateral.targetPerRef()).to.equal(FIX_ONE)
+    expect(await collateral.getPeg()).to.equal(exp(1200, 18))
+    expect(await collateral.strictPrice()).to.equal(exp(1200, 18))
+  })
+
+  it('reads native ETH balances with 18 decimals', async () => {
+    const { collateral } = await deployEthPool()
+    expect(await collateral.getBalances()).to.deep.equal(
+      [exp(15_000, 18), exp(15_000, 18)].map(ethers.BigNumber.from)
+    )
+  })
+
+  it('stays SOUND as the ETH price moves', async () => {
+    const { collateral, feeds } = await deployEthPool()
+
+    await feeds.eth.updateAnswer(exp(900, 8))
+    await feeds.steth.updateAnswer(exp(900, 8))
+    await collateral.refresh()
+    expect(await collateral.status()).to.equal(CollateralStatus.SOUND)
+    expect(await collateral.getPeg()).to.equal(exp(900, 18))
+    expect(await collateral.strictPrice()).to.equal(exp(900, 18))
+  })
+
+  it('soft-defaults when stETH depegs from ETH', async () => {
+    const { collateral, feeds } = await deployEthPool()
+
+    // 1080 USD is 10% below ETH
+    await feeds.steth.updateAnswer(exp(1080, 8))
+    await expect(collateral.refresh())
+      .to.emit(collateral, 'CollateralStatusChanged')
+      .withArgs(CollateralStatus.SOUND, CollateralStatus.IFFY)
+  })
+
+  it('prices a BTC pool in USD', async () => {
+    const { collateral } = await deployBtcPool()
+
+    expect(await collateral.targetName()).to.equal(ethers.utils.formatBytes32String('BTC'))
+    expect(await collateral.getPeg()).to.equal(exp(20_000, 18))
+    expect(await collateral.tokenPrice(0)).to.equal(exp(20_000, 18))
+    expect(await collateral.strictPrice()).to.equal(exp(20_000, 18))
+  })
+
+  it('stays SOUND as the BTC price moves', async () => {
+    const { collateral, feeds } = await deployBtcPool()
+
+    // Both coins are priced through BTC/USD
+    await feeds.btc.updateAnswer(exp(30_000, 8))
+    await collateral.refresh()
+    expect(await collateral.status()).to.equal(CollateralStatus.SOUND)
+    expect(await collateral.strictPrice()).to.equal(exp(30_000, 18))
+  })
+
+  it('soft-defaults when WBTC depegs from BTC', async () => {
+    const { collateral, feeds } = await deployBtcPool()
+
+    await feeds.wbtc.updateAnswer(exp(9, 7))
+    await expect(collateral.refresh())
+      .to.emit(collateral, 'CollateralStatusChanged')
+      .withArgs(CollateralStatus.SOUND, CollateralStatus.IFFY)
+    expect((await readHealthReport(collateral)).tokens[0].deviation).to.equal(exp(1, 17))
+  })
+})
@@ -0,0 +1,85 @@
+import { expect } from 'chai'
+import { time } from '@nomicfoundation/hardhat-network-helpers'
+import { deployMockCollateral } from './fixtures'
+import { exp, CollateralStatus, DEFAULT_THRESHOLD, FIX_ONE, ORACLE_TIMEOUT } from './helpers'
+import { readHealthReport } from '../scripts/healthReport'
+
+// FeedOperation of PoolTokens
+const MULTIPLY = 0
+const DIVIDE = 1
+
+describe('per-token settings', () => {
+  it('uses oracleTimeout and defaultThreshold unless set per feed and per token', async () => {
+    const { collateral } = await deployMockCollateral()
+
+    for (let i = 0; i < 3; i++) {
+      expect(await collateral.getTokenFeedTimeout(i, 0)).to.eq(ORACLE_TIMEOUT)
+      expect(await collateral.getTokenDefaultThreshold(i)).to.eq(DEFAULT_THRESHOLD)
+      expect(await collateral.getTokenFeedOperation(i, 0)).to.eq(MULTIPLY)
+    }
+    await expect(collateral.getTokenFeedTimeout(0, 1))
+      .to.be.revertedWithCustomError(collateral, 'WrongIndex')
+      .withArgs(0)
+  })
+
+  it('catches a stale feed with a short heartbeat while slower feeds are fine', async () => {
+    // USDC updates every hour while DAI and USDT update daily
+    const { collateral, daiFeed, usdtFeed } = await deployMockCollateral({
+      feedTimeouts: [[ORACLE_TIMEOUT], [3600n], [ORACLE_TIMEOUT]],
+    })
+    expect(await collateral.getTokenFeedTimeout(1, 0)).to.eq(3600)
+
+    await time.increase(3601)
+    await daiFeed.updateAnswer(exp(1, 8))
+    await usdtFeed.updateAnswer(exp(1, 8))
+
+    expect(await collateral.tokenPrice(0)).to.eq(FIX_ONE)
+    expect(await collateral.tokenPrice(2)).to.eq(FIX_ONE)
+    await expect(collateral.tokenPrice(1)).to.be.revertedWithCustomError(collateral, 'StalePrice')
+    await collateral.refresh()
+    expect(await collateral.status()).to.equal(CollateralStatus.IFFY)
+  })
+
+  it('prices a token through an inverse feed', async () => {
+    // The DAI feed quotes USD / DAI
+    const { collateral, daiFeed } = await deployMockCollateral({
+      feedOperations: [[DIVIDE], [MULTIPLY], [MULTIPLY]],
+    })
+    expect(await collateral.getTokenFeedOperation(0, 0)).to.eq(DIVIDE)
+
+    await daiFeed.updateAnswer(exp(102, 6))
+    expect(await collateral.tokenPrice(0)).to.be.closeTo((FIX_ONE * 100n) / 102n, 1)
+    await collateral.refresh()
+    expect(await collateral.status()).to.equal(CollateralStatus.SOUND)
+
+    // 1 / 0.8 is 25% off the peg
+    await daiFeed.updateAnswer(exp(8, 7))
+    expect(await collateral.tokenPrice(0)).to.eq(exp(125, 16))
+    await collateral.refresh()
+    expect(await collateral.status()).to.equal(CollateralStatus.IFFY)
+  })
+
+  it('needs an operation for each price feed', async () => {
+    await expect(
+      deployMockCollateral({ feedOperations: [[MULTIPLY], [MULTIPLY, DIVIDE], [MULTIPLY]] })
+    ).to.be.revertedWith('each price feed needs an operation')
+  })
+
+  it('checks the peg of each token against its own threshold', async () => {
+    // DAI may drift 10% from the peg, USDC and USDT only 2%
+    const { collateral, daiFeed, usdcFeed } = await deployMockCollateral({
+      defaultThresholds: [exp(1, 17), exp(2, 16), exp(2, 16)],
+    })
+
+    await daiFeed.updateAnswer(exp(92, 6))
+    await collateral.refresh()
+    expect(await collateral.status()).to.equal(CollateralStatus.SOUND)
+
+    await usdcFeed.updateAnswer(exp(97, 6))
+    await collateral.refresh()
+    expect(await collateral.status()).to.equal(CollateralStatus.IFFY)
+
+    const report = await readHealthReport(collateral)
+    expect(report.tokens.map((t) => t.pegNotMaintained)).to.deep.equal([false, true, false])
+  })
+})
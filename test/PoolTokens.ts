@@ -0,0 +1,201 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import {
+  CurvePoolMock__factory,
+  ImmutablePoolTokensMock__factory,
+  MockV3Aggregator,
+  MockV3Aggregator__factory,
+  PoolTokens,
+  PoolTokens__factory,
+  TokenMock__factory,
+} from '../typechain-types'
+import { exp, DEFAULT_THRESHOLD, FIX_ONE, ORACLE_TIMEOUT } from './helpers'
+
+// FeedOperation of PoolTokens
+const MULTIPLY = 0
+const DIVIDE = 1
+
+// Deploys a plain pool with `nTokens` 18-decimals coins holding 1000 of each, and one feed per
+// price answering 1 for every entry of `feedsPerToken`.
+const makePool = async (nTokens: number, feedsPerToken: number) => {
+  const TokenFactory = <TokenMock__factory>await ethers.getContractFactory('TokenMock')
+  const FeedFactory = <MockV3Aggregator__factory>await ethers.getContractFactory('MockV3Aggregator')
+  const CurvePoolFactory = <CurvePoolMock__factory>await ethers.getContractFactory('CurvePoolMock')
+
+  const coins: string[] = []
+  const feeds: MockV3Aggregator[][] = []
+  for (let i = 0; i < nTokens; i++) {
+    coins.push((await TokenFactory.deploy(`Token ${i}`, `T${i}`, 18)).address)
+    const tokenFeeds: MockV3Aggregator[] = []
+    for (let j = 0; j < feedsPerToken; j++) {
+      tokenFeeds.push(await FeedFactory.deploy(8, exp(1, 8)))
+    }
+    feeds.push(tokenFeeds)
+  }
+  const curvePool = await CurvePoolFactory.deploy(new Array(nTokens).fill(exp(1000, 18)), coins)
+
+  const config = {
+    lpToken: ethers.constants.AddressZero,
+    nTokens,
+    tokenFeeds: feeds.map((tokenFeeds) => tokenFeeds.map((feed) => feed.address)),
+    curvePool: curvePool.address,
+    poolType: 0,
+    oracleTimeout: ORACLE_TIMEOUT,
+    wrappedRates: [],
+    feedTimeouts: feeds.map((tokenFeeds) => tokenFeeds.map(() => ORACLE_TIMEOUT)),
+    feedOperations: feeds.map((tokenFeeds) => tokenFeeds.map(() => MULTIPLY)),
+    defaultThresholds: new Array(nTokens).fill(DEFAULT_THRESHOLD),
+    sequencerUptimeFeed: ethers.constants.AddressZero,
+    sequencerGracePeriod: 0n,
+  }
+  return { coins, feeds, curvePool, config }
+}
+
+const deployPoolTokens = async (config: PoolTokens.PTConfigurationStruct) => {
+  const PoolTokensFactory = <PoolTokens__factory>await ethers.getContractFactory('PoolTokens')
+  return PoolTokensFactory.deploy(config)
+}
+
+describe('PoolTokens', () => {
+  it('supports pools of 8 tokens with long feed chains', async () => {
+    const { coins, feeds, config } = await makePool(8, 5)
+    const poolTokens = await deployPoolTokens(config)
+
+    for (let i = 0; i < 8; i++) {
+      expect(await poolTokens.getToken(i)).to.eq(coins[i])
+      expect(await poolTokens.getTokenFeedsLength(i)).to.eq(5)
+      for (let j = 0; j < 5; j++) {
+        expect(await poolTokens.getTokenFeed(i, j)).to.eq(feeds[i][j].address)
+      }
+    }
+    expect(await poolTokens.totalBalancesValue()).to.eq(exp(8000, 18))
+  })
+
+  it('multiplies the prices of the feed chain', async () => {
+    const { feeds, config } = await makePool(5, 4)
+    const poolTokens = await deployPoolTokens(config)
+
+    // 2 * 1.5 * 1 * 0.5 for the last token only
+    await feeds[4][0].updateAnswer(exp(2, 8))
+    await feeds[4][1].updateAnswer(exp(15, 7))
+    await feeds[4][3].updateAnswer(exp(5, 7))
+
+    expect(await poolTokens.tokenPrice(3)).to.eq(FIX_ONE)
+    expect(await poolTokens.tokenPrice(4)).to.eq(exp(15, 17))
+    expect(await poolTokens.totalBalancesValue()).to.eq(exp(5500, 18))
+  })
+
+  it('divides by the feeds with the Divide operation', async () => {
+    const { feeds, config } = await makePool(3, 2)
+    // USD / T0 at 0.8 alone, then T1 / ETH at 0.5 divided by USD / ETH at 0.0005
+    config.tokenFeeds[0] = [feeds[0][0].address]
+    config.feedTimeouts[0] = [ORACLE_TIMEOUT]
+    config.feedOperations = [[DIVIDE], [MULTIPLY, DIVIDE], [MULTIPLY, MULTIPLY]]
+    await feeds[0][0].updateAnswer(exp(8, 7))
+    await feeds[1][0].updateAnswer(exp(5, 7))
+    await feeds[1][1].updateAnswer(exp(5, 4))
+    const poolTokens = await deployPoolTokens(config)
+
+    expect(await poolTokens.getTokenFeedOperation(0, 0)).to.eq(DIVIDE)
+    expect(await poolTokens.getTokenFeedOperation(1, 0)).to.eq(MULTIPLY)
+    expect(await poolTokens.getTokenFeedOperation(1, 1)).to.eq(DIVIDE)
+    expect(await poolTokens.getTokenFeedTimeout(1, 1)).to.eq(ORACLE_TIMEOUT)
+    expect(await poolTokens.tokenPrice(0)).to.eq(exp(125, 16))
+    expect(await poolTokens.tokenPrice(1)).to.eq(exp(1000, 18))
+    expect(await poolTokens.tokenPrice(2)).to.eq(FIX_ONE)
+    expect(await poolTokens.totalBalancesValue()).to.eq(exp(1_002_250, 18))
+  })
+
+  it('needs an operation for each feed', async () => {
+    const { config } = await makePool(2, 2)
+    config.feedOperations[1] = [MULTIPLY]
+    await expect(deployPoolTokens(config)).to.be.revertedWith('each price feed needs an operation')
+    config.feedOperations = [config.feedOperations[0]]
+    await expect(deployPoolTokens(config)).to.be.revertedWith('each price feed needs an operation')
+  })
+
+  it('supports feed chains of different lengths', async () => {
+    const { config } = await makePool(3, 1)
+    const { feeds } = await makePool(1, 6)
+    config.tokenFeeds[1] = feeds[0].map((feed) => feed.address)
+    config.feedTimeouts[1] = feeds[0].map(() => ORACLE_TIMEOUT)
+    config.feedOperations[1] = feeds[0].map(() => MULTIPLY)
+    const poolTokens = await deployPoolTokens(config)
+
+    expect(await poolTokens.getTokenFeedsLength(0)).to.eq(1)
+    expect(await poolTokens.getTokenFeedsLength(1)).to.eq(6)
+    expect(await poolTokens.getTokenFeedsLength(2)).to.eq(1)
+    expect(await poolTokens.getTokenFeed(1, 5)).to.eq(feeds[0][5].address)
+    expect(await poolTokens.getTokenFeed(2, 0)).to.eq(config.tokenFeeds[2][0])
+  })
+
+  it('reverts on indices beyond the tokens and feeds', async () => {
+    const { config } = await makePool(2, 2)
+    const poolTokens = await deployPoolTokens(config)
+
+    await expect(poolTokens.getToken(2))
+      .to.be.revertedWithCustomError(poolTokens, 'WrongIndex')
+      .withArgs(1)
+    await expect(poolTokens.tokenPrice(2))
+      .to.be.revertedWithCustomError(poolTokens, 'WrongIndex')
+      .withArgs(1)
+    await expect(poolTokens.getTokenFeed(1, 2))
+      .to.be.revertedWithCustomError(poolTokens, 'WrongIndex')
+      .withArgs(1)
+  })
+
+  it('stores a timeout for each feed and a default threshold for each token', async () => {
+    const { config } = await makePool(3, 2)
+    config.feedTimeouts = [
+      [3600n, 86400n],
+      [86400n, 3600n],
+      [1n, 2n ** 48n - 1n],
+    ]
+    config.defaultThresholds = [exp(1, 16), exp(2, 16), FIX_ONE - 1n]
+    const poolTokens = await deployPoolTokens(config)
+
+    for (let i = 0; i < 3; i++) {
+      expect(await poolTokens.getTokenDefaultThreshold(i)).to.eq(config.defaultThresholds[i])
+      for (let j = 0; j < 2; j++) {
+        expect(await poolTokens.getTokenFeed(i, j)).to.eq(config.tokenFeeds[i][j])
+        expect(await poolTokens.getTokenFeedTimeout(i, j)).to.eq(config.feedTimeouts[i][j])
+      }
+    }
+  })
+
+  describe('gas compared to the immutables layout', () => {
+    // The immutables layout supports at most 4 tokens with 3 feeds each
+    for (const [nTokens, feedsPerToken] of [
+      [2, 1],
+      [3, 1],
+      [4, 3],
+    ]) {
+      it(`stays close for ${nTokens} tokens with ${feedsPerToken} feeds each`, async () => {
+        const { config } = await makePool(nTokens, feedsPerToken)
+        const poolTokens = await deployPoolTokens(config)
+        const ImmutableFactory = <ImmutablePoolTokensMock__factory>(
+          await ethers.getContractFactory('ImmutablePoolTokensMock')
+        )
+        const immutablePoolTokens = await ImmutableFactory.deploy(config)
+
+        const gas = {
+          tokenPrice: {
+            immutables: (await immutablePoolTokens.estimateGas.tokenPrice(nTokens - 1)).toNumber(),
+            bytecode: (await poolTokens.estimateGas.tokenPrice(nTokens - 1)).toNumber(),
+          },
+          totalBalancesValue: {
+            immutables: (await immutablePoolTokens.estimateGas.totalBalancesValue()).toNumber(),
+            bytecode: (await poolTokens.estimateGas.totalBalancesValue()).toNumber(),
+          },
+        }
+
+        // Reading the data contract costs more than the free immutables, but less than the cold
+        // SLOADs of keeping the tokens and feeds in storage, at least one per token and per feed.
+        const coldSloads = 2100 * (nTokens + nTokens * feedsPerToken)
+        for (const { immutables, bytecode } of Object.values(gas)) {
+          expect(bytecode - immutables).to.be.lt(coldSloads)
+        }
+      })
+    }
+  })
+})
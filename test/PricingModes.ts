@@ -0,0 +1,65 @@
+import { expect } from 'chai'
+import { deployMockCollateral } from './fixtures'
+import { exp } from './helpers'
+
+// PricingMode of CvxCurveStableLPCollateral
+const VIRTUAL_PRICE_MIN = 1
+const VIRTUAL_PRICE_MEAN = 2
+
+describe('pricing modes', () => {
+  it('prices at the virtual price times the lowest or mean token price', async () => {
+    const { collateral: minCollateral, ...mocks } = await deployMockCollateral({
+      pricingMode: VIRTUAL_PRICE_MIN,
+    })
+    const { collateral: meanCollateral } = await deployMockCollateral(
+      { pricingMode: VIRTUAL_PRICE_MEAN },
+      mocks
+    )
+    await mocks.curvePool.setVirtualPrice(exp(11, 17))
+    await mocks.daiFeed.updateAnswer(exp(101, 6))
+    await mocks.usdtFeed.updateAnswer(exp(99, 6))
+
+    expect(await minCollateral.strictPrice()).to.eq(exp(1089, 15))
+    expect(await meanCollateral.strictPrice()).to.eq(exp(11, 17))
+  })
+
+  it('stays stable under large swaps while spot balances pricing moves', async () => {
+    const { collateral: spotCollateral, ...mocks } = await deployMockCollateral()
+    const { collateral: minCollateral } = await deployMockCollateral(
+      { pricingMode: VIRTUAL_PRICE_MIN },
+      mocks
+    )
+    const { collateral: meanCollateral } = await deployMockCollateral(
+      { pricingMode: VIRTUAL_PRICE_MEAN },
+      mocks
+    )
+    await mocks.usdcFeed.updateAnswer(exp(98, 6))
+    const spotPrice = await spotCollateral.strictPrice()
+    const minPrice = await minCollateral.strictPrice()
+    const meanPrice = await meanCollateral.strictPrice()
+
+    // Drain most of the cheaper USDC for DAI, then most of the DAI for USDC
+    await mocks.curvePool.exchange(0, 1, exp(9_000, 18), exp(9_000, 6))
+    expect(await spotCollateral.strictPrice()).to.be.gt(spotPrice)
+    expect(await minCollateral.strictPrice()).to.eq(minPrice)
+    expect(await meanCollateral.strictPrice()).to.eq(meanPrice)
+
+    await mocks.curvePool.exchange(1, 0, exp(18_000, 6), exp(18_000, 18))
+    expect(await spotCollateral.strictPrice()).to.be.lt(spotPrice)
+    expect(await minCollateral.strictPrice()).to.eq(minPrice)
+    expect(await meanCollateral.strictPrice()).to.eq(meanPrice)
+  })
+
+  it('falls back when a feed reverts', async () => {
+    const { collateral, usdtFeed } = await deployMockCollateral({
+      pricingMode: VIRTUAL_PRICE_MIN,
+    })
+    await usdtFeed.updateAnswer(0)
+
+    await expect(collateral.strictPrice()).to.be.revertedWithCustomError(
+      collateral,
+      'PriceOutsideRange'
+    )
+    expect(await collateral.price(true)).to.deep.equal([true, await collateral.fallbackPrice()])
+  })
+})
@@ -0,0 +1,81 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { CurvePoolReentrancyMock } from '../typechain-types'
+import { deployMockCollateral, makePool } from './fixtures'
+import { exp, CollateralStatus, FIX_ONE } from './helpers'
+
+// PricingMode of CvxCurveStableLPCollateral
+const VIRTUAL_PRICE_MIN = 1
+
+// Deploys a collateral with the read-only reentrancy check and one without it on a 3Pool mock
+// with a reentrancy lock. Both price the LP token through the virtual price.
+const deployOnLockablePool = async () => {
+  const pool = await makePool({
+    coins: ['DAI', 'USDC', 'USDT'],
+    decimals: [18, 6, 6],
+    reentrancyLock: true,
+  })
+  const curvePool = <CurvePoolReentrancyMock>pool.curvePool
+  const opts = { ...pool.opts, pricingMode: VIRTUAL_PRICE_MIN }
+  const { collateral: guarded } = await deployMockCollateral(
+    { ...opts, reentrancyLockPoke: curvePool.interface.getSighash('remove_liquidity') },
+    pool
+  )
+  const { collateral: unguarded } = await deployMockCollateral(opts, pool)
+  return { curvePool, guarded, unguarded }
+}
+
+describe('read-only reentrancy', () => {
+  it('reads the pool normally while it is not locked', async () => {
+    const { guarded, unguarded } = await deployOnLockablePool()
+
+    expect(await guarded.refPerTok()).to.eq(FIX_ONE)
+    expect(await guarded.strictPrice()).to.eq(await unguarded.strictPrice())
+    await guarded.refresh()
+    expect(await guarded.status()).to.equal(CollateralStatus.SOUND)
+  })
+
+  it('refuses to refresh with the virtual price of a locked pool', async () => {
+    const { guarded, unguarded, curvePool } = await deployOnLockablePool()
+    const refresh = guarded.interface.encodeFunctionData('refresh')
+
+    await curvePool.removeLiquidityWithCallback(exp(5, 17), unguarded.address, refresh)
+    expect(await curvePool.callbackSuccess()).to.equal(true)
+    expect(await unguarded.status()).to.equal(CollateralStatus.DISABLED)
+
+    await curvePool.removeLiquidityWithCallback(exp(5, 17), guarded.address, refresh)
+    expect(await curvePool.callbackSuccess()).to.equal(false)
+    expect(await guarded.status()).to.equal(CollateralStatus.SOUND)
+    expect(await guarded.prevReferencePrice()).to.eq(FIX_ONE)
+  })
+
+  it('falls back instead of pricing with the virtual price of a locked pool', async () => {
+    const { guarded, unguarded, curvePool } = await deployOnLockablePool()
+    const price = guarded.interface.encodeFunctionData('price', [true])
+    const decodePrice = async () =>
+      guarded.interface.decodeFunctionResult('price', await curvePool.callbackResult())
+
+    await curvePool.removeLiquidityWithCallback(exp(5, 17), unguarded.address, price)
+    expect(await decodePrice()).to.deep.equal([false, ethers.BigNumber.from(exp(5, 17))])
+
+    await curvePool.removeLiquidityWithCallback(exp(5, 17), guarded.address, price)
+    expect(await decodePrice()).to.deep.equal([true, await guarded.fallbackPrice()])
+  })
+
+  it('refuses a poke that does not set the lock', async () => {
+    const pool = await makePool({
+      coins: ['DAI', 'USDC', 'USDT'],
+      decimals: [18, 6, 6],
+      reentrancyLock: true,
+    })
+    const curvePool = <CurvePoolReentrancyMock>pool.curvePool
+
+    // get_virtual_price succeeds in a static call, so it would never see the pool locked
+    await expect(
+      deployMockCollateral(
+        { ...pool.opts, reentrancyLockPoke: curvePool.interface.getSighash('get_virtual_price') },
+        pool
+      )
+    ).to.be.revertedWith('reentrancyLockPoke does not set the lock')
+  })
+})
@@ -0,0 +1,271 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { time } from '@nomicfoundation/hardhat-network-helpers'
+import { CvxCurveStableLPCollateral, MockV3Aggregator } from '../typechain-types'
+import { CollateralMocks, deployMockCollateral, makeCollateralMocks, makePool } from './fixtures'
+import { exp } from './helpers'
+import {
+  CollateralConfig,
+  CollateralState,
+  CollateralStatus,
+  div,
+  FeedOperation,
+  FIX_ONE,
+  ImbalanceMode,
+  ModelRevert,
+  mul,
+  PoolState,
+  poolRatio,
+  PricingMode,
+  refPerTok,
+  refresh,
+  shiftlToFix,
+  strictPrice,
+  totalBalancesValue,
+} from '../scripts/referenceModel'
+
+// A balance of around `amount` whole coins, sometimes far off
+const randomBalance = (random: Random, amount: bigint, decimals: number) =>
+  random.chance(0.2)
+    ? random.between(exp(amount / 10n, decimals), exp(amount * 2n, decimals))
+    : random.between(exp((amount * 9n) / 10n, decimals), exp((amount * 11n) / 10n, decimals))
+
+// mulberry32, seeded so that a failing state can be replayed
+const makeRandom = (seed: number) => {
+  const next = () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32
+  }
+  return {
+    chance: (p: number) => next() < p,
+    pick: <T>(values: T[]): T => values[Math.floor(next() * values.length)],
+    // Uniform in [lo, hi]
+    between: (lo: bigint, hi: bigint) =>
+      lo + ((hi - lo) * BigInt(Math.floor(next() * 2 ** 32))) / 2n ** 32n,
+  }
+}
+type Random = ReturnType<typeof makeRandom>
+
+const REVERTED = 'reverted'
+
+const onChain = async (f: () => Promise<{ toBigInt(): bigint }>) => {
+  try {
+    return (await f()).toBigInt()
+  } catch {
+    return REVERTED
+  }
+}
+
+const inModel = (f: () => bigint) => {
+  try {
+    return f()
+  } catch (e) {
+    if (e instanceof ModelRevert) return REVERTED
+    throw e
+  }
+}
+
+interface Subject {
+  collateral: CvxCurveStableLPCollateral
+  config: CollateralConfig
+  defaultThresholds: bigint[]
+  operations: FeedOperation[]
+}
+
+const randomConfig = (random: Random, nBalances: number, nTokens: number) => {
+  const imbalanceMode = random.pick([ImbalanceMode.Spread, ImbalanceMode.ValueWeighted])
+  const targetWeights: bigint[] = []
+  if (imbalanceMode === ImbalanceMode.ValueWeighted && random.chance(0.5)) {
+    // Random weights summing to 1
+    let left = FIX_ONE
+    for (let i = 0; i < nBalances - 1; i++) {
+      targetWeights.push(random.between(left / 4n, left / 2n))
+      left -= targetWeights[i]
+    }
+    targetWeights.push(left)
+  }
+  return {
+    pricingMode: random.pick([
+      PricingMode.Balances,
+      PricingMode.VirtualPriceMin,
+      PricingMode.VirtualPriceMean,
+    ]),
+    imbalanceMode,
+    targetWeights,
+    poolRatioThreshold: random.between(exp(5, 16), exp(5, 17)),
+    delayUntilDefault: random.between(3600n, 86400n),
+    revenueHiding: random.chance(0.5) ? 0n : random.between(1n, exp(1, 15)),
+    shutdownStatus: CollateralStatus.IFFY,
+    pegHalfLife: random.chance(0.5) ? 0n : random.between(600n, 7200n),
+    defaultThresholds: [...Array(nTokens)].map(() => random.between(exp(1, 16), exp(1, 17))),
+  }
+}
+
+const deploySubject = async (
+  random: Random,
+  mocks: CollateralMocks,
+  feeds: MockV3Aggregator[],
+  nBalances: number,
+  opts = {}
+): Promise<Subject> => {
+  const { defaultThresholds, ...config } = randomConfig(random, nBalances, feeds.length)
+  // Feeds answer around 1, so dividing by one prices the token around 1 as well
+  const operations = feeds.map(() => random.pick([FeedOperation.Multiply, FeedOperation.Divide]))
+  const { collateral } = await deployMockCollateral(
+    {
+      ...config,
+      defaultThresholds,
+      feedOperations: operations.map((operation) => [operation]),
+      ...opts,
+    },
+    mocks
+  )
+  return { collateral, config, defaultThresholds, operations }
+}
+
+const readState = async (
+  collateral: CvxCurveStableLPCollateral,
+  nTokens: number
+): Promise<CollateralState> => {
+  const smoothed = (await collateral.pegHalfLife()) > 0
+  return {
+    whenDefault: (await collateral.whenDefault()).toBigInt(),
+    prevReferencePrice: (await collateral.prevReferencePrice()).toBigInt(),
+    smoothedPrices: smoothed
+      ? await Promise.all(
+          [...Array(nTokens)].map(async (_, i) => (await collateral.smoothedPrices(i)).toBigInt())
+        )
+      : [],
+    lastSmoothed: BigInt(await collateral.lastSmoothed()),
+  }
+}
+
+// Checks the views and a refresh() of the collateral against the model on the current mocks
+const crossCheck = async (subject: Subject, pool: PoolState, nTokens: number) => {
+  const { collateral, config, defaultThresholds, operations } = subject
+  const modelPool: PoolState = {
+    ...pool,
+    tokens: pool.tokens.map((token, i) => ({
+      ...token,
+      defaultThreshold: defaultThresholds[i],
+      feeds: token.feeds.map((feed) => ({ ...feed, operation: operations[i] })),
+    })),
+  }
+
+  expect(await onChain(() => collateral.totalBalancesValue())).to.equal(
+    inModel(() => totalBalancesValue(modelPool))
+  )
+  expect(await onChain(() => collateral.strictPrice())).to.equal(
+    inModel(() => strictPrice(modelPool, config))
+  )
+  expect(await onChain(() => collateral.poolRatio())).to.equal(
+    inModel(() => poolRatio(modelPool, config))
+  )
+
+  const before = await readState(collateral, nTokens)
+  const receipt = await (await collateral.refresh()).wait()
+  const now = BigInt((await ethers.provider.getBlock(receipt.blockNumber)).timestamp)
+  const after = refresh(modelPool, config, before, now)
+  expect(await readState(collateral, nTokens)).to.eql(after)
+  expect(await collateral.refPerTok()).to.equal(refPerTok(after))
+}
+
+// Sets random answers around 1 on the feeds, with a few depegs and stale feeds
+const randomFeeds = async (random: Random, feeds: MockV3Aggregator[]) => {
+  const states = []
+  for (const feed of feeds) {
+    const answer = random.chance(0.1)
+      ? random.between(exp(85, 6), exp(115, 6))
+      : random.between(exp(99, 6), exp(101, 6))
+    await feed.updateAnswer(answer)
+    const reverts = random.chance(0.05)
+    if (reverts) await feed.setInvalidTimestamp()
+    states.push({ answer, decimals: 8, reverts })
+  }
+  return states
+}
+
+describe('TypeScript reference model', () => {
+  it('rounds like FixLib', async () => {
+    expect(mul(exp(15, 17), 1n)).to.equal(2n)
+    expect(mul(exp(14, 17), 1n)).to.equal(1n)
+    expect(div(2n, 3n)).to.equal(666666666666666667n)
+    expect(div(1n, 3n)).to.equal(333333333333333333n)
+    expect(shiftlToFix(123456789n, -8)).to.equal(1234567890000000000n)
+    expect(shiftlToFix(exp(1, 20) + 9n, -20)).to.equal(FIX_ONE)
+    expect(() => mul(2n ** 191n, exp(2, 18))).to.throw(ModelRevert)
+  })
+
+  it('matches the contract on random 3Pool states', async () => {
+    const random = makeRandom(1)
+    const mocks = await makeCollateralMocks()
+    const feeds = [mocks.daiFeed, mocks.usdcFeed, mocks.usdtFeed]
+    const decimals = [18, 6, 6]
+    const subjects: Subject[] = []
+    for (let i = 0; i < 4; i++) subjects.push(await deploySubject(random, mocks, feeds, 3))
+
+    let virtualPrice = FIX_ONE
+    for (let step = 0; step < 12; step++) {
+      await time.increase(Number(random.between(1n, 7200n)))
+      const feedStates = await randomFeeds(random, feeds)
+      const balances = decimals.map((d) => randomBalance(random, 10_000n, d))
+      await mocks.curvePool.setBalances(balances)
+      // The virtual price mostly grows, so that a few hard defaults happen along the way
+      virtualPrice = random.chance(0.05)
+        ? virtualPrice - random.between(1n, exp(1, 15))
+        : virtualPrice + random.between(0n, exp(1, 15))
+      await mocks.curvePool.setVirtualPrice(virtualPrice)
+
+      const pool: PoolState = {
+        tokens: balances.map((balance, i) => ({
+          balance,
+          decimals: decimals[i],
+          feeds: [feedStates[i]],
+          defaultThreshold: 0n,
+        })),
+        virtualPrice,
+        lpTotalSupply: (await mocks.lpToken.totalSupply()).toBigInt(),
+        lpDecimals: 18,
+      }
+      for (const subject of subjects) await crossCheck(subject, pool, 3)
+    }
+  })
+
+  it('matches the contract on random Metapool states', async () => {
+    const random = makeRandom(2)
+    const metapool = await makePool({ type: 2, coins: ['GUSD'], decimals: [2] })
+    const feeds = [metapool.feeds.gusd, metapool.daiFeed, metapool.usdcFeed, metapool.usdtFeed]
+    const subjects: Subject[] = []
+    for (let i = 0; i < 3; i++) {
+      subjects.push(await deploySubject(random, metapool, feeds, 2, metapool.opts))
+    }
+
+    let virtualPrice = FIX_ONE
+    for (let step = 0; step < 10; step++) {
+      await time.increase(Number(random.between(1n, 7200n)))
+      const feedStates = await randomFeeds(random, feeds)
+      const balances = [randomBalance(random, 10_000n, 2), randomBalance(random, 10_000n, 18)]
+      await metapool.curvePool.setBalances(balances)
+      const baseVirtualPrice = random.between(FIX_ONE, exp(11, 17))
+      await metapool.basePool.setVirtualPrice(baseVirtualPrice)
+      virtualPrice += random.between(0n, exp(1, 15))
+      await metapool.curvePool.setVirtualPrice(virtualPrice)
+
+      const pool: PoolState = {
+        tokens: feedStates.map((feed, i) => ({
+          balance: i === 0 ? balances[0] : 0n,
+          decimals: i === 0 ? 2 : 18,
+          feeds: [feed],
+          defaultThreshold: 0n,
+        })),
+        virtualPrice,
+        lpTotalSupply: (await metapool.lpToken.totalSupply()).toBigInt(),
+        lpDecimals: 18,
+        metapool: { baseLpBalance: balances[1], baseVirtualPrice },
+      }
+      for (const subject of subjects) await crossCheck(subject, pool, 4)
+    }
+  })
+})
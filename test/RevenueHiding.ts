@@ -0,0 +1,103 @@
+import { expect } from 'chai'
+import { time } from '@nomicfoundation/hardhat-network-helpers'
+import { deployMockCollateral } from './fixtures'
+import { exp, CollateralStatus, FIX_ONE } from './helpers'
+import { readHealthReport } from '../scripts/healthReport'
+
+describe('revenue hiding', () => {
+  const REVENUE_HIDING = exp(1, 12) // 1e-6
+  const FLOOR = FIX_ONE - exp(1, 12) // The virtual price of 1 without the hidden revenue
+
+  it('discounts refPerTok by revenueHiding', async () => {
+    const { collateral } = await deployMockCollateral({ revenueHiding: REVENUE_HIDING })
+
+    expect(await collateral.actualRefPerTok()).to.eq(FIX_ONE)
+    expect(await collateral.refPerTok()).to.eq(FLOOR)
+    expect(await collateral.prevReferencePrice()).to.eq(FLOOR)
+  })
+
+  it('hard-defaults only below the hidden revenue', async () => {
+    const { collateral, curvePool } = await deployMockCollateral({
+      revenueHiding: REVENUE_HIDING,
+    })
+
+    // A rounding decrease of one wei
+    await curvePool.setVirtualPrice(FIX_ONE - 1n)
+    await collateral.refresh()
+    expect(await collateral.status()).to.equal(CollateralStatus.SOUND)
+
+    await curvePool.setVirtualPrice(FLOOR)
+    await collateral.refresh()
+    expect(await collateral.status()).to.equal(CollateralStatus.SOUND)
+    expect(await collateral.prevReferencePrice()).to.eq(FLOOR)
+    expect(await collateral.refPerTok()).to.eq(FLOOR)
+
+    await curvePool.setVirtualPrice(FLOOR - 1n)
+    await expect(collateral.refresh())
+      .to.emit(collateral, 'CollateralStatusChanged')
+      .withArgs(CollateralStatus.SOUND, CollateralStatus.DISABLED)
+    expect(await collateral.prevReferencePrice()).to.eq(FLOOR - 1n)
+  })
+
+  it('only raises the floor as the virtual price grows', async () => {
+    const { collateral, curvePool } = await deployMockCollateral({
+      revenueHiding: REVENUE_HIDING,
+    })
+    const floor = (exp(11, 17) * FLOOR) / FIX_ONE
+
+    await curvePool.setVirtualPrice(exp(11, 17))
+    await collateral.refresh()
+    expect(await collateral.prevReferencePrice()).to.eq(floor)
+
+    // Decreases within the hidden revenue neither default nor lower the floor
+    await curvePool.setVirtualPrice(floor + 1n)
+    await collateral.refresh()
+    expect(await collateral.status()).to.equal(CollateralStatus.SOUND)
+    expect(await collateral.prevReferencePrice()).to.eq(floor)
+
+    await curvePool.setVirtualPrice(floor - 1n)
+    await collateral.refresh()
+    expect(await collateral.status()).to.equal(CollateralStatus.DISABLED)
+  })
+
+  it('reports the virtual price against the floor', async () => {
+    const { collateral, curvePool } = await deployMockCollateral({
+      revenueHiding: REVENUE_HIDING,
+    })
+
+    await curvePool.setVirtualPrice(FLOOR)
+    expect((await readHealthReport(collateral)).referencePriceDecreased).to.be.false
+
+    await curvePool.setVirtualPrice(FLOOR - 1n)
+    const report = await readHealthReport(collateral)
+    expect(report.referencePriceDecreased).to.be.true
+    expect(report.actualRefPerTok).to.equal(FLOOR - 1n)
+    expect(report.refPerTok).to.equal(FLOOR)
+    expect(report.projectedWhenDefault).to.equal(await time.latest())
+  })
+
+  it('never decreases refPerTok before a hard default', async () => {
+    const { collateral, curvePool } = await deployMockCollateral({
+      revenueHiding: REVENUE_HIDING,
+    })
+    const up = exp(11, 17)
+    const upFloor = (up * FLOOR) / FIX_ONE
+
+    // Rises, dips within the hidden revenue, rises again, then falls below the floor
+    let last = await collateral.refPerTok()
+    for (const virtualPrice of [FIX_ONE - 1n, FLOOR, up, upFloor + 1n, upFloor, up + 1n]) {
+      await curvePool.setVirtualPrice(virtualPrice)
+      await collateral.refresh()
+      expect(await collateral.status()).to.equal(CollateralStatus.SOUND)
+      const refPerTok = await collateral.refPerTok()
+      expect(refPerTok).to.be.gte(last)
+      expect(refPerTok).to.be.lte(virtualPrice)
+      last = refPerTok
+    }
+
+    await curvePool.setVirtualPrice(upFloor)
+    await collateral.refresh()
+    expect(await collateral.status()).to.equal(CollateralStatus.DISABLED)
+    expect(await collateral.refPerTok()).to.eq(upFloor)
+  })
+})
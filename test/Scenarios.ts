@@ -0,0 +1,125 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { deployMockCollateral, mockScenarioTarget } from './fixtures'
+import { exp, FIX_ONE, ORACLE_TIMEOUT } from './helpers'
+import {
+  formatTimelineCsv,
+  formatTimelineJson,
+  runScenario,
+  statusChanges,
+} from '../scripts/scenario'
+
+describe('scenarios', () => {
+  const PEGGED = { dai: exp(1, 8), usdc: exp(1, 8), usdt: exp(1, 8) }
+
+  it('replays a depeg into a default', async () => {
+    const mocks = await deployMockCollateral()
+    const delayUntilDefault = (await mocks.collateral.delayUntilDefault()).toNumber()
+
+    const timeline = await runScenario(mockScenarioTarget(mocks), {
+      name: 'DAI depeg',
+      steps: [
+        { at: 0, feeds: PEGGED },
+        { at: 3600, feeds: { ...PEGGED, dai: exp(8, 7) } },
+        { at: 3600 + delayUntilDefault / 2, feeds: { ...PEGGED, dai: exp(8, 7) } },
+        { at: 3600 + delayUntilDefault, feeds: { ...PEGGED, dai: exp(8, 7) } },
+      ],
+    })
+
+    expect(timeline.map((point) => point.status)).to.eql(['SOUND', 'IFFY', 'IFFY', 'DISABLED'])
+    expect(timeline[0].whenDefault).to.be.undefined
+    expect(timeline[1].whenDefault).to.equal(timeline[1].timestamp + delayUntilDefault)
+    expect(timeline[3].timestamp).to.be.gte(timeline[1].whenDefault!)
+    expect(statusChanges(timeline).map((point) => [point.at, point.status])).to.eql([
+      [0, 'SOUND'],
+      [3600, 'IFFY'],
+      [3600 + delayUntilDefault, 'DISABLED'],
+    ])
+  })
+
+  it('recovers when the peg comes back before the delay', async () => {
+    const mocks = await deployMockCollateral()
+
+    const timeline = await runScenario(mockScenarioTarget(mocks), {
+      name: 'USDC depeg and recovery',
+      steps: [
+        { at: 0, feeds: { ...PEGGED, usdc: exp(88, 6) } },
+        { at: 7200, feeds: { ...PEGGED, usdc: exp(97, 6) } },
+      ],
+    })
+
+    expect(statusChanges(timeline).map((point) => point.status)).to.eql(['IFFY', 'SOUND'])
+    expect(timeline[1].whenDefault).to.be.undefined
+  })
+
+  it('replays pool balances and the virtual price', async () => {
+    const mocks = await deployMockCollateral()
+
+    const timeline = await runScenario(mockScenarioTarget(mocks), {
+      name: 'USDT drained',
+      steps: [
+        { at: 0, feeds: PEGGED, virtualPrice: exp(102, 16) },
+        // (20k - 2k) / 32k is above the 30% poolRatioThreshold
+        { at: 60, balances: [exp(10_000, 18), exp(20_000, 6), exp(2_000, 6)] },
+        { at: 120, virtualPrice: exp(101, 16) },
+      ],
+    })
+
+    expect(timeline[0].refPerTok).to.equal(exp(102, 16))
+    expect(timeline.map((point) => point.status)).to.eql(['SOUND', 'IFFY', 'DISABLED'])
+  })
+
+  it('lets feeds go stale between steps', async () => {
+    const mocks = await deployMockCollateral()
+
+    const timeline = await runScenario(mockScenarioTarget(mocks), {
+      name: 'stale feeds',
+      steps: [
+        { at: 0, feeds: PEGGED },
+        { at: Number(ORACLE_TIMEOUT) + 1, feeds: { dai: exp(1, 8), usdc: exp(1, 8) } },
+      ],
+    })
+
+    expect(timeline.map((point) => point.status)).to.eql(['SOUND', 'IFFY'])
+    expect(timeline[1].isFallbackPrice).to.be.true
+  })
+
+  it('rejects steps out of order and unknown feeds', async () => {
+    const target = mockScenarioTarget(await deployMockCollateral())
+
+    await expect(
+      runScenario(target, { name: 'unordered', steps: [{ at: 60 }, { at: 60 }] })
+    ).to.be.rejectedWith('unordered: step at 60s is not after the one at 60s')
+    await expect(
+      runScenario(target, { name: 'unknown', steps: [{ at: 0, feeds: { gusd: exp(1, 2) } }] })
+    ).to.be.rejectedWith('unknown: unknown feed gusd')
+  })
+
+  it('formats the timeline as JSON and CSV', async () => {
+    const mocks = await deployMockCollateral()
+    const timeline = await runScenario(mockScenarioTarget(mocks), {
+      name: 'depeg',
+      steps: [{ at: 0, feeds: { ...PEGGED, dai: exp(8, 7) } }],
+    })
+    const [point] = timeline
+
+    expect(JSON.parse(formatTimelineJson(timeline))).to.eql([
+      {
+        at: 0,
+        timestamp: point.timestamp,
+        status: 'IFFY',
+        whenDefault: point.whenDefault,
+        price: point.price.toString(),
+        isFallbackPrice: false,
+        refPerTok: FIX_ONE.toString(),
+      },
+    ])
+    expect(formatTimelineCsv(timeline).split('\n')).to.eql([
+      'at,timestamp,status,whenDefault,price,isFallbackPrice,refPerTok',
+      `0,${point.timestamp},IFFY,${point.whenDefault},${ethers.utils.formatUnits(
+        point.price,
+        18
+      )},false,1.0`,
+    ])
+  })
+})
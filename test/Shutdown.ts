@@ -0,0 +1,65 @@
+import { expect } from 'chai'
+import { time } from '@nomicfoundation/hardhat-network-helpers'
+import { deployMockCollateral } from './fixtures'
+import { CollateralStatus } from './helpers'
+import { readHealthReport } from '../scripts/healthReport'
+
+describe('shutdown', () => {
+  it('is not shut down in normal situations', async () => {
+    const { collateral } = await deployMockCollateral()
+
+    expect(await collateral.poolShutDown()).to.be.false
+    expect(await collateral.shutdownStatus()).to.equal(CollateralStatus.IFFY)
+  })
+
+  it('soft-defaults when the Convex pool is shut down', async () => {
+    const { collateral, booster } = await deployMockCollateral()
+    await booster.shutdownPool(0)
+
+    expect(await collateral.poolShutDown()).to.be.true
+    await expect(collateral.refresh())
+      .to.emit(collateral, 'CollateralStatusChanged')
+      .withArgs(CollateralStatus.SOUND, CollateralStatus.IFFY)
+  })
+
+  it('soft-defaults when the wrapper is shut down', async () => {
+    const { collateral, wrapper } = await deployMockCollateral()
+    await wrapper.shutdown()
+
+    await collateral.refresh()
+    expect(await collateral.status()).to.equal(CollateralStatus.IFFY)
+  })
+
+  it('soft-defaults while the Curve pool is killed', async () => {
+    const { collateral, curvePool } = await deployMockCollateral()
+    await curvePool.setKilled(true)
+
+    await collateral.refresh()
+    expect(await collateral.status()).to.equal(CollateralStatus.IFFY)
+
+    await curvePool.setKilled(false)
+    await collateral.refresh()
+    expect(await collateral.status()).to.equal(CollateralStatus.SOUND)
+  })
+
+  it('hard-defaults with a DISABLED shutdownStatus', async () => {
+    const { collateral, booster } = await deployMockCollateral({
+      shutdownStatus: CollateralStatus.DISABLED,
+    })
+    await booster.shutdownPool(0)
+
+    const report = await readHealthReport(collateral)
+    expect(report.shutDown).to.be.true
+    expect(report.projectedWhenDefault).to.equal(await time.latest())
+
+    await expect(collateral.refresh())
+      .to.emit(collateral, 'CollateralStatusChanged')
+      .withArgs(CollateralStatus.SOUND, CollateralStatus.DISABLED)
+  })
+
+  it('needs an IFFY or DISABLED shutdownStatus', async () => {
+    await expect(
+      deployMockCollateral({ shutdownStatus: CollateralStatus.SOUND })
+    ).to.be.revertedWith('shutdownStatus SOUND')
+  })
+})
@@ -0,0 +1,102 @@
+import { expect } from 'chai'
+import { time } from '@nomicfoundation/hardhat-network-helpers'
+import { deployMockCollateral } from './fixtures'
+import { exp, CollateralStatus, FIX_ONE } from './helpers'
+import { readHealthReport } from '../scripts/healthReport'
+
+describe('smoothed peg check', () => {
+  const HALF_LIFE = 3600n
+
+  it('starts from the current prices', async () => {
+    const { collateral } = await deployMockCollateral({ pegHalfLife: HALF_LIFE })
+
+    expect(await collateral.pegHalfLife()).to.equal(HALF_LIFE)
+    expect(await collateral.smoothedPrices(0)).to.equal(FIX_ONE)
+    expect(await collateral.smoothedPrices(2)).to.equal(FIX_ONE)
+    expect(await collateral.lastSmoothed()).to.equal(await time.latest())
+  })
+
+  it('does not keep prices without a half-life', async () => {
+    const { collateral } = await deployMockCollateral()
+    await expect(collateral.smoothedPrices(0)).to.be.reverted
+    expect(await collateral.lastSmoothed()).to.equal(0)
+  })
+
+  it('ignores a short spike', async () => {
+    const { collateral, ...mocks } = await deployMockCollateral({ pegHalfLife: HALF_LIFE })
+    const { collateral: unsmoothed } = await deployMockCollateral({}, mocks)
+    const { daiFeed } = mocks
+    const start = BigInt(await collateral.lastSmoothed())
+
+    // DAI at 0.9 for a minute
+    await daiFeed.updateAnswer(exp(9, 7))
+    await time.setNextBlockTimestamp(start + 60n)
+    await collateral.refresh()
+    await unsmoothed.refresh()
+    expect(await collateral.status()).to.equal(CollateralStatus.SOUND)
+    expect(await unsmoothed.status()).to.equal(CollateralStatus.IFFY)
+
+    // 60s keep 1 - 60 / 7200 of the smoothed price
+    const kept = FIX_ONE - (60n * FIX_ONE) / (2n * HALF_LIFE)
+    const smoothed = (FIX_ONE * kept + exp(9, 17) * (FIX_ONE - kept)) / FIX_ONE
+    expect(await collateral.smoothedPrices(0)).to.equal(smoothed)
+
+    await daiFeed.updateAnswer(exp(1, 8))
+    await collateral.refresh()
+    await unsmoothed.refresh()
+    expect(await collateral.status()).to.equal(CollateralStatus.SOUND)
+    expect(await unsmoothed.status()).to.equal(CollateralStatus.SOUND)
+    expect(await collateral.smoothedPrices(0)).to.be.gt(smoothed)
+  })
+
+  it('soft-defaults on a sustained depeg', async () => {
+    const { collateral, daiFeed, usdcFeed, usdtFeed } = await deployMockCollateral({
+      pegHalfLife: HALF_LIFE,
+    })
+    const start = BigInt(await collateral.lastSmoothed())
+
+    // DAI at 0.92 is 8% off the peg, beyond the 5% threshold
+    await daiFeed.updateAnswer(exp(92, 6))
+
+    // Half of the way after a half-life: 0.96
+    await time.setNextBlockTimestamp(start + HALF_LIFE)
+    await collateral.refresh()
+    expect(await collateral.smoothedPrices(0)).to.equal(exp(96, 16))
+    expect(await collateral.status()).to.equal(CollateralStatus.SOUND)
+
+    // Keep the other feeds fresh
+    await usdcFeed.updateAnswer(exp(1, 8))
+    await usdtFeed.updateAnswer(exp(1, 8))
+    await daiFeed.updateAnswer(exp(92, 6))
+
+    // Three quarters after two: 0.94
+    await time.setNextBlockTimestamp(start + 2n * HALF_LIFE)
+    await expect(collateral.refresh())
+      .to.emit(collateral, 'CollateralStatusChanged')
+      .withArgs(CollateralStatus.SOUND, CollateralStatus.IFFY)
+    expect(await collateral.smoothedPrices(0)).to.equal(exp(94, 16))
+  })
+
+  it('forgets the smoothed price after long enough', async () => {
+    const { collateral, daiFeed } = await deployMockCollateral({ pegHalfLife: HALF_LIFE })
+
+    await time.increase(60n * HALF_LIFE)
+    await daiFeed.updateAnswer(exp(9, 7))
+    await collateral.refresh()
+    expect(await collateral.smoothedPrices(0)).to.equal(exp(9, 17))
+    expect(await collateral.status()).to.equal(CollateralStatus.IFFY)
+  })
+
+  it('reports the smoothed price', async () => {
+    const { collateral, daiFeed } = await deployMockCollateral({ pegHalfLife: HALF_LIFE })
+    const start = await collateral.lastSmoothed()
+
+    await daiFeed.updateAnswer(exp(9, 7))
+    await time.increaseTo(start + Number(HALF_LIFE))
+    const report = await readHealthReport(collateral)
+    expect(report.tokens[0].price).to.equal(exp(9, 17))
+    expect(report.tokens[0].smoothedPrice).to.equal(exp(95, 16))
+    expect(report.tokens[0].deviation).to.equal(exp(5, 16))
+    expect(report.tokens[1].smoothedPrice).to.equal(FIX_ONE)
+  })
+})
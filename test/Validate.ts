@@ -0,0 +1,75 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { CurvePoolReentrancyMock } from '../typechain-types'
+import { deployMockCollateral, makeCollateralMocks, makePool } from './fixtures'
+import { getPoolPreset } from '../scripts/configuration'
+import { checkReentrancyLock, CheckLevel } from '../scripts/validate'
+
+const NATIVE_ETH = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE'
+const NO_LOCK_POKE = '0x00000000'
+const REMOVE_LIQUIDITY = ethers.utils.id('remove_liquidity(uint256,uint256[3])').slice(0, 10)
+
+// The 3pool preset on `curvePool`
+const configFor = (curvePool: string, reentrancyLockPoke: string) => {
+  const preset = getPoolPreset('3pool')
+  return { ...preset, collateralOpts: { ...preset.collateralOpts, curvePool, reentrancyLockPoke } }
+}
+
+describe('validate', () => {
+  describe('reentrancy lock', () => {
+    it('passes a poke that sets the lock of an unlocked pool', async () => {
+      const pool = await makePool({
+        coins: ['DAI', 'USDC', 'USDT'],
+        decimals: [18, 6, 6],
+        reentrancyLock: true,
+      })
+      const poke = (<CurvePoolReentrancyMock>pool.curvePool).interface.getSighash(
+        'remove_liquidity'
+      )
+      expect(poke).to.equal(REMOVE_LIQUIDITY)
+
+      const [check] = await checkReentrancyLock(configFor(pool.curvePool.address, poke), [])
+      expect(check.level).to.equal(CheckLevel.PASS)
+      expect(check.detail).to.contain('uses up the 10000 gas')
+
+      const { collateral } = await deployMockCollateral(
+        { ...pool.opts, reentrancyLockPoke: poke },
+        pool
+      )
+      await expect(collateral.refresh()).to.not.be.reverted
+    })
+
+    it('fails a poke that succeeds', async () => {
+      const mocks = await makeCollateralMocks()
+      const poke = mocks.curvePool.interface.getSighash('get_virtual_price')
+
+      const [check] = await checkReentrancyLock(configFor(mocks.curvePool.address, poke), [])
+      expect(check.level).to.equal(CheckLevel.FAIL)
+      expect(check.detail).to.contain('does not touch the reentrancy lock')
+    })
+
+    it('fails a poke that reverts before the gas cap, like the collateral', async () => {
+      // The plain pool mock has no remove_liquidity
+      const mocks = await makeCollateralMocks()
+
+      const [check] = await checkReentrancyLock(
+        configFor(mocks.curvePool.address, REMOVE_LIQUIDITY),
+        []
+      )
+      expect(check.level).to.equal(CheckLevel.FAIL)
+
+      await expect(
+        deployMockCollateral({ reentrancyLockPoke: REMOVE_LIQUIDITY }, mocks)
+      ).to.be.revertedWith('reentrancyLockPoke does not set the lock')
+    })
+
+    it('warns about a pool holding native ETH without a poke', async () => {
+      const mocks = await makeCollateralMocks()
+      const config = configFor(mocks.curvePool.address, NO_LOCK_POKE)
+
+      expect(await checkReentrancyLock(config, [mocks.dai.address])).to.be.empty
+      const checks = await checkReentrancyLock(config, [NATIVE_ETH, mocks.dai.address])
+      expect(checks.map((check) => check.level)).to.deep.equal([CheckLevel.WARN])
+    })
+  })
+})
@@ -0,0 +1,136 @@
+import { expect } from 'chai'
+import { deployMockCollateral, makePool } from './fixtures'
+import { exp, CollateralStatus, FIX_ONE } from './helpers'
+import { explainHealthReport, readHealthReport } from '../scripts/healthReport'
+
+// CurvePoolType of PoolTokens
+const METAPOOL = 2
+
+// ImbalanceMode of CvxCurveStableLPCollateral
+const VALUE_WEIGHTED = 1
+
+const COINS = ['DAI', 'USDC', 'USDT', 'sUSD']
+const DECIMALS = [18, 6, 6, 18]
+
+// Deploys a collateral with the value-weighted imbalance check on a Plain pool mock of the first
+// `balances.length` of DAI, USDC, USDT and sUSD, holding `balances` whole coins
+const deployWeighted = async (balances: number[], opts = {}) => {
+  const decimals = DECIMALS.slice(0, balances.length)
+  const toUnits = (whole: number[]) => whole.map((b, i) => exp(b, decimals[i]))
+  const pool = await makePool({
+    coins: COINS.slice(0, balances.length),
+    decimals,
+    balances: toUnits(balances),
+  })
+  const { collateral } = await deployMockCollateral(
+    { ...pool.opts, imbalanceMode: VALUE_WEIGHTED, ...opts },
+    pool
+  )
+  const setBalances = (newBalances: number[]) => pool.curvePool.setBalances(toUnits(newBalances))
+  return { ...pool, collateral, setBalances }
+}
+
+describe('value-weighted imbalance', () => {
+  // The pools hold $12k of coins. The first coin holds 25% or 35% more than its equal share and
+  // the others split the rest.
+  const pools: { [nTokens: number]: { within: number[]; beyond: number[] } } = {
+    2: { within: [7500, 4500], beyond: [8100, 3900] },
+    3: { within: [5000, 3500, 3500], beyond: [5400, 3300, 3300] },
+    4: { within: [3750, 2750, 2750, 2750], beyond: [4050, 2650, 2650, 2650] },
+  }
+  for (const [nTokens, { within, beyond }] of Object.entries(pools)) {
+    it(`applies the same threshold to a ${nTokens}-coin pool`, async () => {
+      const { collateral, setBalances } = await deployWeighted(
+        new Array(Number(nTokens)).fill(12_000 / Number(nTokens))
+      )
+      expect(await collateral.poolRatio()).to.equal(0)
+
+      await setBalances(within)
+      expect(await collateral.poolRatio()).to.be.closeTo(exp(25, 16), 10)
+      await collateral.refresh()
+      expect(await collateral.status()).to.equal(CollateralStatus.SOUND)
+
+      await setBalances(beyond)
+      expect(await collateral.poolRatio()).to.be.closeTo(exp(35, 16), 10)
+      await collateral.refresh()
+      expect(await collateral.status()).to.equal(CollateralStatus.IFFY)
+    })
+  }
+
+  it('catches an imbalance of a 4-coin pool that the spread misses', async () => {
+    const { collateral: spread } = await deployWeighted(pools[4].beyond, { imbalanceMode: 0 })
+    const { collateral: weighted } = await deployWeighted(pools[4].beyond)
+
+    // (4050 - 2650) / 12000
+    expect(await spread.poolRatio()).to.be.closeTo((exp(1400, 18) * FIX_ONE) / exp(12_000, 18), 1)
+    await spread.refresh()
+    expect(await spread.status()).to.equal(CollateralStatus.SOUND)
+    await weighted.refresh()
+    expect(await weighted.status()).to.equal(CollateralStatus.IFFY)
+  })
+
+  it('values the balances at their prices', async () => {
+    const { collateral, usdcFeed } = await deployWeighted([10_000, 10_000])
+    await usdcFeed.updateAnswer(exp(96, 6))
+
+    // DAI holds 10000 / 19600 of the value instead of half
+    expect(await collateral.poolRatio()).to.be.closeTo((exp(200, 18) * FIX_ONE) / exp(9800, 18), 10)
+  })
+
+  it('compares the shares against the target weights', async () => {
+    const weights = [exp(8, 17), exp(2, 17)]
+    const { collateral } = await deployWeighted([8000, 2000], { targetWeights: weights })
+    const { collateral: equal } = await deployWeighted([8000, 2000])
+
+    expect(await collateral.targetWeight(0, 2)).to.equal(weights[0])
+    expect(await equal.targetWeight(0, 2)).to.equal(exp(5, 17))
+    expect(await collateral.poolRatio()).to.equal(0)
+    expect(await equal.poolRatio()).to.equal(exp(6, 17))
+  })
+
+  it('weighs the paired coin of a Metapool against the base pool LP token', async () => {
+    const pool = await makePool({
+      type: METAPOOL,
+      coins: ['GUSD'],
+      decimals: [2],
+      balances: [exp(5000, 2), exp(15_000, 18)],
+    })
+    const { collateral } = await deployMockCollateral(
+      { ...pool.opts, imbalanceMode: VALUE_WEIGHTED, targetWeights: [exp(25, 16), exp(75, 16)] },
+      pool
+    )
+
+    expect(await collateral.poolRatio()).to.equal(0)
+  })
+
+  it('reports a reverting feed instead of the pool ratio', async () => {
+    const { collateral, usdtFeed } = await deployWeighted([4000, 4000, 4000])
+    await usdtFeed.updateAnswer(0)
+
+    const report = await readHealthReport(collateral)
+    expect(report.poolRatio).to.be.undefined
+    expect(report.unbalanced).to.equal(false)
+    expect(report.tokens[2].feedReverted).to.equal(true)
+    expect(explainHealthReport(report)).to.deep.equal([
+      'token 2 price feed reverted',
+      'pool ratio reverted',
+    ])
+  })
+
+  it('needs 1 weight for each balance, summing to 1', async () => {
+    const message = 'targetWeights need ValueWeighted and 1 weight for each balance, summing to 1'
+    const weights = [exp(5, 17), exp(5, 17)]
+    await expect(
+      deployWeighted([10_000, 10_000], { imbalanceMode: 0, targetWeights: weights })
+    ).to.be.revertedWith(message)
+    await expect(
+      deployWeighted([10_000, 10_000, 10_000], { targetWeights: weights })
+    ).to.be.revertedWith(message)
+    await expect(
+      deployWeighted([10_000, 10_000], { targetWeights: [exp(5, 17), exp(4, 17)] })
+    ).to.be.revertedWith(message)
+    await expect(
+      deployWeighted([10_000, 10_000], { targetWeights: [FIX_ONE, 0n] })
+    ).to.be.revertedWith(message)
+  })
+})
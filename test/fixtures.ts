@@ -14,6 +14,11 @@ import {
   USDC_USD_FEED,
   DAI_USD_FEED,
   THREE_POOL_TOKEN,
+  PRICE_TIMEOUT,
+  ORACLE_ERROR,
+  CollateralStatus,
+  CONVEX_BOOSTER,
+  whileImpersonating,
 } from './helpers'
 import {
   GnosisMock,
@@ -46,7 +51,22 @@ import {
   Asset,
   CvxCurveStableLPCollateral,
   CvxCurveStableLPCollateral__factory,
+  CvxCurveStableLPRangeCollateral,
+  CvxCurveStableLPRangeCollateral__factory,
+  TokenMock,
+  TokenMock__factory,
+  MockV3Aggregator,
+  MockV3Aggregator__factory,
+  CurvePoolMock,
+  LendingTokenMock,
+  LendingTokenMock__factory,
+  ConvexBoosterMock,
+  RewardPoolMock,
+  ConvexStakingWrapperMock,
+  ConvexBooster,
 } from '../typechain-types'
+import { deployMockPool, MOCK_FEED_DECIMALS } from '../scripts/mocks'
+import { ScenarioTarget } from '../scripts/scenario'
 
 const RSR_PRICE_FEED = '0x759bBC1be8F90eE6457C44abc7d443842a976d02'
 const COMP_PRICE_FEED = '0xdbd020CAeF83eFd542f4De03e3cF0C28A4428bd5'
@@ -295,8 +315,21 @@ interface CollateralOpts {
   maxTradeVolume?: bigint
   poolRatioThreshold?: bigint
   defaultThreshold?: bigint
+  pegHalfLife?: bigint
   delayUntilDefault?: bigint
+  shutdownStatus?: number
+  revenueHiding?: bigint
   poolType?: number
+  wrappedRates?: number[]
+  pricingMode?: number
+  reentrancyLockPoke?: string
+  feedTimeouts?: bigint[][]
+  feedOperations?: number[][]
+  defaultThresholds?: bigint[]
+  imbalanceMode?: number
+  targetWeights?: bigint[]
+  sequencerUptimeFeed?: string
+  sequencerGracePeriod?: bigint
 }
 
 const defaultOpts: CollateralOpts = {
@@ -311,22 +344,30 @@ const defaultOpts: CollateralOpts = {
   maxTradeVolume: MAX_TRADE_VOL,
   poolRatioThreshold: exp(3, 17), // 30%
   defaultThreshold: DEFAULT_THRESHOLD,
+  pegHalfLife: 0n,
   delayUntilDefault: DELAY_UNTIL_DEFAULT,
+  shutdownStatus: CollateralStatus.IFFY,
+  revenueHiding: 0n,
   poolType: 0,
+  wrappedRates: [],
+  pricingMode: 0,
+  reentrancyLockPoke: '0x00000000',
+  feedTimeouts: [],
+  feedOperations: [],
+  defaultThresholds: [],
+  imbalanceMode: 0,
+  targetWeights: [],
+  sequencerUptimeFeed: ethers.constants.AddressZero,
+  sequencerGracePeriod: 0n,
 }
 
-export const deployCollateral = async (
-  opts: CollateralOpts = {},
-  poolId: bigint = 9n
-): Promise<CvxCurveStableLPCollateral> => {
+// Fills in the defaults and, unless given, deploys a ConvexStakingWrapper for `poolId`
+const makeConfiguration = async (
+  opts: CollateralOpts,
+  poolId: bigint
+): Promise<CvxCurveStableLPCollateral.ConfigurationStruct> => {
   opts = { ...defaultOpts, ...opts }
 
-  const CvxCurveStableLPCollateralFactory = <CvxCurveStableLPCollateral__factory>(
-    await ethers.getContractFactory('CvxCurveStableLPCollateral')
-  )
-
-  let newOpts: CvxCurveStableLPCollateral.ConfigurationStruct
-
   if (opts.wrappedStakeToken == undefined) {
     const CvxMiningFactory = await ethers.getContractFactory('CvxMining')
     const cvxMining = await CvxMiningFactory.deploy()
@@ -338,17 +379,252 @@ export const deployCollateral = async (
     })
     const convexStakingWrapper = await ConvexStakingWrapperFactory.deploy()
     await convexStakingWrapper.initialize(poolId)
-    newOpts = <CvxCurveStableLPCollateral.ConfigurationStruct>{
+    return <CvxCurveStableLPCollateral.ConfigurationStruct>{
       ...opts,
       wrappedStakeToken: convexStakingWrapper.address,
     }
-  } else {
-    newOpts = <CvxCurveStableLPCollateral.ConfigurationStruct>opts
+  }
+  return <CvxCurveStableLPCollateral.ConfigurationStruct>opts
+}
+
+export const deployCollateral = async (
+  opts: CollateralOpts = {},
+  poolId: bigint = 9n
+): Promise<CvxCurveStableLPCollateral> => {
+  const CvxCurveStableLPCollateralFactory = <CvxCurveStableLPCollateral__factory>(
+    await ethers.getContractFactory('CvxCurveStableLPCollateral')
+  )
+
+  return <CvxCurveStableLPCollateral>(
+    await CvxCurveStableLPCollateralFactory.deploy(await makeConfiguration(opts, poolId))
+  )
+}
+
+interface PriceRangeOpts {
+  priceTimeout?: bigint
+  oracleErrors?: bigint[][]
+}
+
+export const deployRangeCollateral = async (
+  opts: CollateralOpts = {},
+  rangeOpts: PriceRangeOpts = {},
+  poolId: bigint = 9n
+): Promise<CvxCurveStableLPRangeCollateral> => {
+  const config = await makeConfiguration(opts, poolId)
+  const rangeConfig = {
+    priceTimeout: PRICE_TIMEOUT,
+    // ORACLE_ERROR for every feed by default
+    oracleErrors: (<string[][]>config.tokensPriceFeeds).map((feeds) =>
+      feeds.map(() => ORACLE_ERROR)
+    ),
+    ...rangeOpts,
+  }
+
+  const CvxCurveStableLPRangeCollateralFactory = <CvxCurveStableLPRangeCollateral__factory>(
+    await ethers.getContractFactory('CvxCurveStableLPRangeCollateral')
+  )
+  return <CvxCurveStableLPRangeCollateral>(
+    await CvxCurveStableLPRangeCollateralFactory.deploy(config, rangeConfig)
+  )
+}
+
+// Shuts down the mainnet Convex pool `poolId` as the booster's pool manager, which is how Convex
+// retires a pool
+export const shutdownConvexPool = async (poolId: bigint) => {
+  const booster = <ConvexBooster>await ethers.getContractAt('ConvexBooster', CONVEX_BOOSTER)
+  await whileImpersonating(await booster.poolManager(), async (signer) => {
+    await booster.connect(signer).shutdownPool(poolId)
+  })
+}
+
+export interface CollateralMocks {
+  dai: TokenMock
+  usdc: TokenMock
+  usdt: TokenMock
+  daiFeed: MockV3Aggregator
+  usdcFeed: MockV3Aggregator
+  usdtFeed: MockV3Aggregator
+  lpToken: TokenMock
+  curvePool: CurvePoolMock
+  crv: TokenMock
+  cvx: TokenMock
+  convexToken: TokenMock
+  booster: ConvexBoosterMock
+  rewardPool: RewardPoolMock
+  cvxRewardPool: RewardPoolMock
+  wrapper: ConvexStakingWrapperMock
+}
+
+// Local stand-ins for the Curve 3Pool, its Chainlink feeds and the Convex contracts behind it.
+// None of these need a mainnet fork.
+export const makeCollateralMocks = async (): Promise<CollateralMocks> => {
+  const {
+    coins: [dai, usdc, usdt],
+    feeds: [daiFeed, usdcFeed, usdtFeed],
+    ...pool
+  } = await deployMockPool([
+    { name: 'Dai Stablecoin', symbol: 'DAI', decimals: 18 },
+    { name: 'USD Coin', symbol: 'USDC', decimals: 6 },
+    { name: 'Tether USD', symbol: 'USDT', decimals: 6 },
+  ])
+  return { dai, usdc, usdt, daiFeed, usdcFeed, usdtFeed, ...pool }
+}
+
+export const deployMockCollateral = async (
+  opts: CollateralOpts = {},
+  mocks?: CollateralMocks
+): Promise<CollateralMocks & { collateral: CvxCurveStableLPCollateral }> => {
+  mocks = mocks ?? (await makeCollateralMocks())
+
+  const collateral = await deployCollateral(mockOpts(opts, mocks))
+
+  return { collateral, ...mocks }
+}
+
+export const deployMockRangeCollateral = async (
+  opts: CollateralOpts = {},
+  rangeOpts: PriceRangeOpts = {},
+  mocks?: CollateralMocks
+): Promise<CollateralMocks & { collateral: CvxCurveStableLPRangeCollateral }> => {
+  mocks = mocks ?? (await makeCollateralMocks())
+
+  const collateral = await deployRangeCollateral(mockOpts(opts, mocks), rangeOpts)
+
+  return { collateral, ...mocks }
+}
+
+// CurvePoolType of PoolTokens
+const LENDING = 1
+const METAPOOL = 2
+
+const NATIVE_ETH = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE'
+
+interface PoolOpts {
+  type?: number // Plain by default
+  // Symbols of the pool's coins, or of the paired coins of a Metapool on the 3Pool mock. DAI,
+  // USDC and USDT are the 3Pool mock's coins and ETH is native ETH.
+  coins: string[]
+  decimals: number[]
+  // Of the pool's coins, 10k of each by default. A Metapool holds the 3Pool mock's LP token last.
+  balances?: bigint[]
+  // Names of the feeds pricing each token, one feed named by the lowercase symbol by default.
+  // The feeds `dai`, `usdc` and `usdt` are the 3Pool mock's.
+  feeds?: string[][]
+  answers?: { [feed: string]: bigint } // D8{UoA/tok} Initial answers by feed name, 1 by default
+  wrapped?: { decimals: number[]; rates: bigint[] } // The coins of a Lending pool wrapping each coin
+  reentrancyLock?: boolean // Deploys a CurvePoolReentrancyMock
+  lpSupply?: bigint // {tok} Of a Metapool's own LP token, 21k by default
+}
+
+// Deploys a Curve pool mock next to the 3Pool mocks, which other pools share the LP token and the
+// Convex mocks of. The returned `opts` set a collateral on the pool through deployMockCollateral.
+export const makePool = async (poolOpts: PoolOpts) => {
+  const { type = 0, coins, decimals } = poolOpts
+  const mocks = await makeCollateralMocks()
+  const [owner] = await ethers.getSigners()
+  const TokenMockFactory = <TokenMock__factory>await ethers.getContractFactory('TokenMock')
+  const MockV3AggregatorFactory = <MockV3Aggregator__factory>(
+    await ethers.getContractFactory('MockV3Aggregator')
+  )
+
+  const tokens: { [symbol: string]: TokenMock } = {
+    DAI: mocks.dai,
+    USDC: mocks.usdc,
+    USDT: mocks.usdt,
+  }
+  const addresses: string[] = []
+  for (let i = 0; i < coins.length; i++) {
+    if (coins[i] === 'ETH') {
+      addresses.push(NATIVE_ETH)
+      continue
+    }
+    tokens[coins[i]] =
+      tokens[coins[i]] ?? (await TokenMockFactory.deploy(coins[i], coins[i], decimals[i]))
+    addresses.push(tokens[coins[i]].address)
   }
 
-  const collateral = <CvxCurveStableLPCollateral>(
-    await CvxCurveStableLPCollateralFactory.deploy(newOpts)
+  const feeds: { [name: string]: MockV3Aggregator } = {
+    dai: mocks.daiFeed,
+    usdc: mocks.usdcFeed,
+    usdt: mocks.usdtFeed,
+  }
+  const tokenFeeds =
+    poolOpts.feeds ??
+    [...coins, ...(type === METAPOOL ? ['DAI', 'USDC', 'USDT'] : [])].map((symbol) => [
+      symbol.toLowerCase(),
+    ])
+  for (const name of tokenFeeds.flat()) {
+    const answer = poolOpts.answers?.[name]
+    if (feeds[name] === undefined) {
+      feeds[name] = await MockV3AggregatorFactory.deploy(MOCK_FEED_DECIMALS, answer ?? exp(1, 8))
+    } else if (answer !== undefined) {
+      await feeds[name].updateAnswer(answer)
+    }
+  }
+
+  const wrapped: LendingTokenMock[] = []
+  if (poolOpts.wrapped) {
+    const LendingTokenFactory = <LendingTokenMock__factory>(
+      await ethers.getContractFactory('LendingTokenMock')
+    )
+    for (let i = 0; i < coins.length; i++) {
+      const symbol = `w${coins[i]}`
+      const { decimals, rates } = poolOpts.wrapped
+      wrapped.push(await LendingTokenFactory.deploy(symbol, symbol, decimals[i], rates[i]))
+    }
+  }
+
+  let poolCoins = addresses
+  if (type === LENDING) poolCoins = wrapped.map((token) => token.address)
+  if (type === METAPOOL) poolCoins = [...addresses, mocks.lpToken.address]
+  const balances =
+    poolOpts.balances ??
+    poolCoins.map((_, i) => exp(10_000, poolOpts.wrapped?.decimals[i] ?? decimals[i] ?? 18))
+  const curvePool = <CurvePoolMock>(
+    await (
+      await ethers.getContractFactory(
+        poolOpts.reentrancyLock ? 'CurvePoolReentrancyMock' : 'CurvePoolMock'
+      )
+    ).deploy(balances, poolCoins)
   )
 
-  return collateral
+  let lpToken = mocks.lpToken
+  if (type === LENDING) await curvePool.setUnderlyingCoins(addresses)
+  if (type === METAPOOL) {
+    await curvePool.setBaseCoins([mocks.dai.address, mocks.usdc.address, mocks.usdt.address])
+    await curvePool.setBasePool(mocks.curvePool.address)
+    lpToken = await TokenMockFactory.deploy(
+      `Curve.fi ${coins.join('/')}/3Crv`,
+      `${coins.join('').toLowerCase()}3CRV`,
+      18
+    )
+    await lpToken.mint(owner.address, exp(poolOpts.lpSupply ?? 21_000n, 18))
+  }
+  await curvePool.setToken(lpToken.address)
+
+  const opts: CollateralOpts = {
+    lpToken: lpToken.address,
+    curvePool: curvePool.address,
+    poolType: type,
+    nTokens: tokenFeeds.length,
+    tokensPriceFeeds: tokenFeeds.map((names) => names.map((name) => feeds[name].address)),
+  }
+  return { ...mocks, basePool: mocks.curvePool, curvePool, lpToken, tokens, feeds, wrapped, opts }
 }
+
+// Names the 3Pool mock feeds `dai`, `usdc` and `usdt` for scenarios in scripts/scenario.ts
+export const mockScenarioTarget = (
+  mocks: CollateralMocks & { collateral: CvxCurveStableLPCollateral }
+): ScenarioTarget => ({
+  collateral: mocks.collateral,
+  curvePool: mocks.curvePool,
+  feeds: { dai: mocks.daiFeed, usdc: mocks.usdcFeed, usdt: mocks.usdtFeed },
+})
+
+const mockOpts = (opts: CollateralOpts, mocks: CollateralMocks): CollateralOpts => ({
+  lpToken: mocks.lpToken.address,
+  curvePool: mocks.curvePool.address,
+  tokensPriceFeeds: [[mocks.daiFeed.address], [mocks.usdcFeed.address], [mocks.usdtFeed.address]],
+  wrappedStakeToken: mocks.wrapper.address,
+  ...opts,
+})
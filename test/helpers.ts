@@ -19,6 +19,7 @@ export const USDT = '0xdac17f958d2ee523a2206206994597c13d831ec7'
 export const CVX_3CRV = '0x30D9410ED1D5DA1F6C8391af5338C93ab8d4035C'
 export const CRV = '0xD533a949740bb3306d119CC777fa900bA034cd52'
 export const CVX = '0x4e3FBD56CD56c3e72c1403e103b45Db9da5B9D2B'
+export const CONVEX_BOOSTER = '0xF403C135812408BFbE8713b5A23a04b3D48AAE31'
 
 export const DAI_HOLDER = '0x16b34ce9a6a6f7fc2dd25ba59bf7308e7b38e186'
 export const THREE_POOL_HOLDER = '0xd632f22692fac7611d2aa1c0d552930d43caed3b'
@@ -28,6 +29,8 @@ export const ORACLE_TIMEOUT = 86400n // 24 hours in seconds
 export const DEFAULT_THRESHOLD = 5n * 10n ** 16n // 0.05
 export const DELAY_UNTIL_DEFAULT = 86400n
 export const MAX_TRADE_VOL = 1000000n
+export const PRICE_TIMEOUT = 604800n // 1 week
+export const ORACLE_ERROR = 5n * 10n ** 15n // 0.5%
 
 export const FIX_ONE = 1n * 10n ** 18n
 
@@ -43,6 +46,9 @@ export const exp = (i: Numeric, d: Numeric = 0): bigint => {
   return BigInt(i) * 10n ** BigInt(d)
 }
 
+// Suites that read mainnet state only run when an RPC URL for forking is available
+export const describeFork = process.env.MAINNET_RPC_URL ? describe : describe.skip
+
 export const resetFork = async () => {
   // Need to reset state since running the whole test suites to all
   // test cases in this file to fail. Strangely, all test cases